@@ -0,0 +1,171 @@
+// Time collision queries against a large random maze, with and without the
+// collision grid, and check both give the same answers.
+// Usage: npm run benchmark-collision -- [walls] [queries]
+import * as THREE from "three";
+import { CollisionSystem, Wall } from "../src/engine/collision";
+
+const CELL_SIZE = 8; // Maze cell size in world units
+const WALL_HEIGHT = 4;
+const WALL_THICKNESS = 0.5;
+const QUERY_RADIUS = 1.5; // The player's collision radius
+const GROUND_HEIGHT = 3;
+
+const [wallsArg, queriesArg] = process.argv.slice(2);
+const wallCount = wallsArg ? Number(wallsArg) : 4000;
+const queryCount = queriesArg ? Number(queriesArg) : 500;
+
+if (!(wallCount > 0) || !(queryCount > 0)) {
+  console.error("Usage: npm run benchmark-collision -- [walls] [queries]");
+  process.exit(2);
+}
+
+// mulberry32, so every run builds the same maze and queries
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const random = createRandom(1);
+
+// A square map with about one wall per cell, each on a random cell edge
+const cellsPerSide = Math.ceil(Math.sqrt(wallCount));
+const mapSize = cellsPerSide * CELL_SIZE;
+
+function createWalls(): Wall[] {
+  const walls: Wall[] = [];
+  while (walls.length < wallCount) {
+    const alongX = random() < 0.5;
+    const cellX = Math.floor(random() * cellsPerSide);
+    const cellZ = Math.floor(random() * cellsPerSide);
+
+    const geometry = new THREE.BoxGeometry(
+      CELL_SIZE,
+      WALL_HEIGHT,
+      WALL_THICKNESS
+    );
+    const mesh = new THREE.Mesh(geometry);
+    mesh.position.set(
+      cellX * CELL_SIZE + (alongX ? CELL_SIZE / 2 : 0),
+      WALL_HEIGHT / 2,
+      cellZ * CELL_SIZE + (alongX ? 0 : CELL_SIZE / 2)
+    );
+    mesh.rotation.y = alongX ? 0 : Math.PI / 2;
+    mesh.updateMatrixWorld();
+    walls.push(new Wall(mesh));
+  }
+  return walls;
+}
+
+function createQueries(): THREE.Vector3[] {
+  return Array.from(
+    { length: queryCount },
+    () =>
+      new THREE.Vector3(
+        random() * mapSize,
+        1 + random() * WALL_HEIGHT,
+        random() * mapSize
+      )
+  );
+}
+
+interface QueryResults {
+  timings: Record<string, number>; // ms per query type
+  answers: string[]; // One line per query, to compare the two runs
+}
+
+function time(run: () => void): number {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+}
+
+function runQueries(
+  system: CollisionSystem,
+  queries: THREE.Vector3[],
+  walls: Wall[]
+): QueryResults {
+  const wallIndex = (collidable: unknown) => walls.indexOf(collidable as Wall);
+  const collisions: boolean[] = [];
+  const infos: string[] = [];
+  const grounds: string[] = [];
+
+  const timings = {
+    checkCollision: time(() =>
+      queries.forEach((position) =>
+        collisions.push(system.checkCollision(position, QUERY_RADIUS))
+      )
+    ),
+    getCollisionInfo: time(() =>
+      queries.forEach((position) => {
+        const info = system.getCollisionInfo(position, QUERY_RADIUS);
+        infos.push(`${info.collision}:${wallIndex(info.collidable)}`);
+      })
+    ),
+    checkGroundCollision: time(() =>
+      queries.forEach((position) => {
+        const ground = system.checkGroundCollision(
+          position,
+          QUERY_RADIUS,
+          GROUND_HEIGHT
+        );
+        grounds.push(`${ground.collision}:${ground.groundY?.toFixed(4)}`);
+      })
+    ),
+  };
+
+  return {
+    timings,
+    answers: queries.map(
+      (_position, index) =>
+        `${collisions[index]} ${infos[index]} ${grounds[index]}`
+    ),
+  };
+}
+
+const walls = createWalls();
+const system = new CollisionSystem();
+const buildTime = time(() =>
+  walls.forEach((wall) => system.addCollidable(wall))
+);
+const queries = createQueries();
+
+system.setBroadphaseEnabled(false);
+const bruteForce = runQueries(system, queries, walls);
+system.setBroadphaseEnabled(true);
+const grid = runQueries(system, queries, walls);
+
+const buildMs = buildTime.toFixed(1);
+console.log(
+  `${walls.length} walls in a ${mapSize} x ${mapSize} map, ` +
+    `${queryCount} queries each (grid built in ${buildMs} ms)`
+);
+console.log("query                  all walls   grid       speedup");
+Object.keys(grid.timings).forEach((name) => {
+  // Microseconds per query
+  const slow = (bruteForce.timings[name] * 1000) / queryCount;
+  const fast = (grid.timings[name] * 1000) / queryCount;
+  const columns = [
+    name.padEnd(22),
+    `${slow.toFixed(1)} us`.padEnd(11),
+    `${fast.toFixed(1)} us`.padEnd(10),
+    `${(slow / fast).toFixed(1)}x`,
+  ];
+  console.log(columns.join(" "));
+});
+
+const mismatch = grid.answers.findIndex(
+  (answer, index) => answer !== bruteForce.answers[index]
+);
+if (mismatch !== -1) {
+  console.error(
+    `Query ${mismatch} differs: grid "${grid.answers[mismatch]}", all walls "${bruteForce.answers[mismatch]}"`
+  );
+  process.exit(1);
+}
+console.log("Grid and all-walls results match");
@@ -0,0 +1,44 @@
+// Generate a random level as level JSON. The same seed gives the same level.
+// Usage: npm run generate-level -- <seed> [output.json] [width] [depth] [rooms]
+import * as fs from "fs";
+import { generateLevel } from "../src/engine/levelGenerator";
+import {
+  formatValidationErrors,
+  validateLevel,
+} from "../src/engine/levelValidator";
+
+const [seedArg, outputFile, widthArg, depthArg, roomsArg] =
+  process.argv.slice(2);
+
+if (!seedArg || !Number.isFinite(Number(seedArg))) {
+  console.error(
+    "Usage: npm run generate-level -- <seed> [output.json] [width] [depth] [rooms]"
+  );
+  process.exit(2);
+}
+
+const level = generateLevel({
+  seed: Number(seedArg),
+  width: widthArg ? Number(widthArg) : undefined,
+  depth: depthArg ? Number(depthArg) : undefined,
+  roomCount: roomsArg ? Number(roomsArg) : undefined,
+});
+
+const errors = validateLevel(level);
+if (errors.length > 0) {
+  console.error(`Generated level for seed ${seedArg} is not valid:`);
+  console.error(formatValidationErrors(errors));
+  process.exit(1);
+}
+
+const json = JSON.stringify(level, null, 2);
+if (outputFile) {
+  fs.writeFileSync(outputFile, json);
+  console.log(
+    `Wrote seed ${seedArg} to ${outputFile} (${level.rooms.length} rooms, ${
+      level.enemies?.length ?? 0
+    } enemies)`
+  );
+} else {
+  console.log(json);
+}
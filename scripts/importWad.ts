@@ -0,0 +1,60 @@
+// Convert a map from a Doom WAD into level JSON.
+// Usage: npm run import-wad -- <file.wad> <MAP> [output.json] [doomUnitsPerUnit]
+import * as fs from "fs";
+import { importWadMap } from "../src/engine/wadImporter";
+import { WadReader } from "../src/engine/wadReader";
+import {
+  formatValidationErrors,
+  validateLevel,
+} from "../src/engine/levelValidator";
+
+const [wadFile, mapName, outputFile, scaleArg] = process.argv.slice(2);
+
+// Doom units per world unit, so it has to be a positive number
+const unitsPerUnit = scaleArg ? Number(scaleArg) : undefined;
+
+if (
+  !wadFile ||
+  (unitsPerUnit !== undefined &&
+    !(Number.isFinite(unitsPerUnit) && unitsPerUnit > 0))
+) {
+  console.error(
+    "Usage: npm run import-wad -- <file.wad> <MAP> [output.json] [doomUnitsPerUnit]"
+  );
+  process.exit(2);
+}
+
+const data = fs.readFileSync(wadFile);
+const buffer = data.buffer.slice(
+  data.byteOffset,
+  data.byteOffset + data.byteLength
+);
+
+if (!mapName) {
+  // No map given: list what the WAD contains
+  console.log(new WadReader(buffer).getMapNames().join("\n"));
+  process.exit(0);
+}
+
+const level = importWadMap(buffer, mapName, {
+  scale: unitsPerUnit ? 1 / unitsPerUnit : undefined,
+});
+
+const errors = validateLevel(level);
+if (errors.length > 0) {
+  console.error(`Imported ${mapName} is not a valid level:`);
+  console.error(formatValidationErrors(errors));
+  process.exit(1);
+}
+
+const json = JSON.stringify(level, null, 2);
+if (outputFile) {
+  fs.writeFileSync(outputFile, json);
+  console.log(
+    `Wrote ${mapName} to ${outputFile} (${level.rooms.length} rooms, ${
+      level.enemies?.length ?? 0
+    } enemies)`
+  );
+} else {
+  console.log(json);
+}
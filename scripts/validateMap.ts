@@ -0,0 +1,39 @@
+// Validate one or more level JSON files against the ILevel format.
+// Usage: npm run validate-map -- src/maps/map.json [more.json ...]
+import * as fs from "fs";
+import {
+  formatValidationErrors,
+  validateLevel,
+} from "../src/engine/levelValidator";
+
+const files = process.argv.slice(2);
+
+if (files.length === 0) {
+  console.error("Usage: npm run validate-map -- <level.json> [...]");
+  process.exit(2);
+}
+
+let failed = false;
+
+files.forEach((file) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    console.error(`${file}: could not read JSON (${(error as Error).message})`);
+    failed = true;
+    return;
+  }
+
+  const errors = validateLevel(data);
+  if (errors.length === 0) {
+    console.log(`${file}: OK`);
+    return;
+  }
+
+  failed = true;
+  console.error(`${file}: ${errors.length} error(s)`);
+  console.error(formatValidationErrors(errors));
+});
+
+process.exit(failed ? 1 : 0);
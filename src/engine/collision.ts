@@ -1,5 +1,6 @@
 import * as THREE from "three";
-import { OrientedBoundingBox } from "./orientedBoundingBox";
+import { OrientedBoundingBox, RayHit, SweepHit } from "./orientedBoundingBox";
+import { CollisionGrid } from "./collisionGrid";
 
 export interface Collidable {
   mesh: THREE.Mesh;
@@ -28,8 +29,259 @@ export class Wall implements Collidable {
   }
 }
 
+export interface GroundCollisionResult {
+  collision: boolean;
+  groundY: number | null;
+  normal: THREE.Vector3 | null;
+  collidable: Collidable | null;
+}
+
+export interface SweepResult {
+  time: number; // Fraction of the move made at first contact, 0 to 1
+  normal: THREE.Vector3; // Contact normal, pointing back at the mover
+  position: THREE.Vector3; // Where the mover should stop, just short of contact
+  collidable: Collidable;
+}
+
+export interface RaycastResult {
+  collidable: Collidable;
+  point: THREE.Vector3;
+  normal: THREE.Vector3;
+  distance: number;
+}
+
+// Decides which collidables a ray can hit; return false to see through one
+export type RaycastFilter = (collidable: Collidable) => boolean;
+
+export enum SurfaceType {
+  FLOOR,
+  CEILING,
+}
+
+// Surfaces are slabs of this thickness, below a floor or above a ceiling
+const SURFACE_THICKNESS = 0.5;
+
+// Contact closer than this is resting contact, not a collision
+const SURFACE_CONTACT_EPSILON = 0.01;
+
+// Swept movers stop this far short of what they hit
+const SWEEP_SKIN = 0.01;
+
+/**
+ * A horizontal polygon (a sector's floor or ceiling) at a fixed height.
+ * Unlike Wall it can't be described by an OBB, so it does its own sphere tests.
+ */
+export class SectorSurface implements Collidable {
+  public mesh: THREE.Mesh;
+  public type: SurfaceType;
+  public height: number;
+  private polygon: THREE.Vector2[]; // Vertices in the x/z plane
+  private obb: OrientedBoundingBox;
+
+  constructor(
+    mesh: THREE.Mesh,
+    polygon: THREE.Vector2[],
+    height: number,
+    type: SurfaceType
+  ) {
+    this.mesh = mesh;
+    this.polygon = polygon;
+    this.height = height;
+    this.type = type;
+
+    // Bounding slab, used for debug visualization
+    const bounds = new THREE.Box2().setFromPoints(polygon);
+    const center = bounds.getCenter(new THREE.Vector2());
+    const size = bounds.getSize(new THREE.Vector2());
+    const [bottom, top] = this.getSlabRange();
+    this.obb = new OrientedBoundingBox(
+      new THREE.Vector3(center.x, (bottom + top) / 2, center.y),
+      new THREE.Vector3(size.x / 2, SURFACE_THICKNESS / 2, size.y / 2)
+    );
+  }
+
+  public getBoundingBox(): THREE.Box3 {
+    return new THREE.Box3().setFromObject(this.mesh);
+  }
+
+  public getOrientedBoundingBox(): OrientedBoundingBox {
+    return this.obb;
+  }
+
+  /**
+   * Even-odd test of whether a point lies within the polygon (ignoring height)
+   */
+  public containsPoint(x: number, z: number): boolean {
+    let inside = false;
+    for (
+      let i = 0, j = this.polygon.length - 1;
+      i < this.polygon.length;
+      j = i++
+    ) {
+      const a = this.polygon[i];
+      const b = this.polygon[j];
+      if (a.y > z !== b.y > z) {
+        const crossX = a.x + ((z - a.y) * (b.x - a.x)) / (b.y - a.y);
+        if (x < crossX) inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  public sphereCollisionInfo(sphere: THREE.Sphere): {
+    collision: boolean;
+    penetration: THREE.Vector3 | null;
+  } {
+    // Closest point on the slab to the sphere center
+    const closest = this.closestPointInPlane(sphere.center.x, sphere.center.z);
+    const [bottom, top] = this.getSlabRange();
+    const closestPoint = new THREE.Vector3(
+      closest.x,
+      Math.max(bottom, Math.min(sphere.center.y, top)),
+      closest.y
+    );
+
+    const toSphere = new THREE.Vector3().subVectors(
+      sphere.center,
+      closestPoint
+    );
+    const distance = toSphere.length();
+
+    if (distance >= sphere.radius - SURFACE_CONTACT_EPSILON) {
+      return { collision: false, penetration: null };
+    }
+
+    if (distance < 0.0001) {
+      // Center is inside the slab: push out through the open face
+      const penetration =
+        this.type === SurfaceType.FLOOR
+          ? new THREE.Vector3(0, top - sphere.center.y + sphere.radius, 0)
+          : new THREE.Vector3(0, bottom - sphere.center.y - sphere.radius, 0);
+      return { collision: true, penetration };
+    }
+
+    return {
+      collision: true,
+      penetration: toSphere
+        .normalize()
+        .multiplyScalar(sphere.radius - distance + 0.01), // Small buffer
+    };
+  }
+
+  /**
+   * Sweep a sphere against the surface's open face: the top of a floor or
+   * the underside of a ceiling. The slab's sides are left to the walls
+   * around the sector.
+   */
+  public sweepSphere(
+    start: THREE.Vector3,
+    end: THREE.Vector3,
+    radius: number
+  ): SweepHit | null {
+    const facing = this.type === SurfaceType.FLOOR ? 1 : -1;
+
+    // Distance from the sphere to the face, and how far it closes that gap
+    const gap = (start.y - this.height) * facing - radius;
+    const approach = (start.y - end.y) * facing;
+    if (gap < 0 || approach <= 0 || gap > approach) {
+      return null;
+    }
+
+    const time = gap / approach;
+    const x = start.x + (end.x - start.x) * time;
+    const z = start.z + (end.z - start.z) * time;
+    if (!this.containsPoint(x, z)) {
+      return null;
+    }
+
+    return { time, normal: new THREE.Vector3(0, facing, 0) };
+  }
+
+  /**
+   * Find where a ray enters the surface's open face, like sweepSphere with
+   * no radius. Rays from the closed side pass through.
+   */
+  public intersectRay(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    maxDistance: number
+  ): RayHit | null {
+    const facing = this.type === SurfaceType.FLOOR ? 1 : -1;
+
+    const gap = (origin.y - this.height) * facing;
+    const approach = -direction.y * facing;
+    if (gap < 0 || approach <= 0 || gap > approach * maxDistance) {
+      return null;
+    }
+
+    const distance = gap / approach;
+    const x = origin.x + direction.x * distance;
+    const z = origin.z + direction.z * distance;
+    if (!this.containsPoint(x, z)) {
+      return null;
+    }
+
+    return { distance, normal: new THREE.Vector3(0, facing, 0) };
+  }
+
+  private getSlabRange(): [number, number] {
+    return this.type === SurfaceType.FLOOR
+      ? [this.height - SURFACE_THICKNESS, this.height]
+      : [this.height, this.height + SURFACE_THICKNESS];
+  }
+
+  // Closest point of the filled polygon to (x, z), in the x/z plane
+  private closestPointInPlane(x: number, z: number): THREE.Vector2 {
+    const point = new THREE.Vector2(x, z);
+    if (this.containsPoint(x, z)) {
+      return point;
+    }
+
+    let closest = point;
+    let closestDistance = Infinity;
+    const edge = new THREE.Vector2();
+    const candidate = new THREE.Vector2();
+
+    for (
+      let i = 0, j = this.polygon.length - 1;
+      i < this.polygon.length;
+      j = i++
+    ) {
+      const a = this.polygon[j];
+      const b = this.polygon[i];
+      edge.subVectors(b, a);
+
+      const lengthSq = edge.lengthSq();
+      const t =
+        lengthSq > 0
+          ? Math.max(0, Math.min(1, point.clone().sub(a).dot(edge) / lengthSq))
+          : 0;
+      candidate.copy(a).addScaledVector(edge, t);
+
+      const distance = candidate.distanceToSquared(point);
+      if (distance < closestDistance) {
+        closestDistance = distance;
+        closest = candidate.clone();
+      }
+    }
+
+    return closest;
+  }
+}
+
+/**
+ * Sphere, sweep and ground tests against the level's collidables and sector
+ * surfaces. A uniform grid over their OBB bounds narrows each test to the
+ * few things near it; collidables that move are re-bucketed by
+ * updateDynamicCollidables().
+ */
 export class CollisionSystem {
   private collidables: Collidable[] = [];
+  private surfaces: SectorSurface[] = [];
+  private dynamicCollidables: Collidable[] = [];
+  private collidableGrid: CollisionGrid<Collidable> = new CollisionGrid();
+  private surfaceGrid: CollisionGrid<SectorSurface> = new CollisionGrid();
+  private useBroadphase: boolean = true;
   private wallNormals: Map<Collidable, THREE.Vector3> = new Map();
   private debugMode: boolean = false;
   private debugMeshes: THREE.Object3D[] = [];
@@ -44,6 +296,10 @@ export class CollisionSystem {
 
   public addCollidable(collidable: Collidable, normal?: THREE.Vector3): void {
     this.collidables.push(collidable);
+    this.collidableGrid.insert(
+      collidable,
+      collidable.getOrientedBoundingBox().getBoundingBox()
+    );
 
     // Store wall normal if provided
     if (normal) {
@@ -58,6 +314,44 @@ export class CollisionSystem {
     }
   }
 
+  // Register something that moves, such as a door or platform
+  public addDynamicCollidable(collidable: Collidable): void {
+    this.addCollidable(collidable);
+    this.dynamicCollidables.push(collidable);
+  }
+
+  // Re-bucket moving collidables; call after doors and platforms update
+  public updateDynamicCollidables(): void {
+    const bounds = new THREE.Box3();
+    this.dynamicCollidables.forEach((collidable) => {
+      collidable.getOrientedBoundingBox().getBoundingBox(bounds);
+      this.collidableGrid.update(collidable, bounds);
+    });
+  }
+
+  /**
+   * Test against everything instead of using the grid. Results are the
+   * same either way; this is for comparing and benchmarking.
+   */
+  public setBroadphaseEnabled(enabled: boolean): void {
+    this.useBroadphase = enabled;
+  }
+
+  // Register a sector floor or ceiling
+  public addSurface(surface: SectorSurface): void {
+    this.surfaces.push(surface);
+    this.surfaceGrid.insert(
+      surface,
+      surface.getOrientedBoundingBox().getBoundingBox()
+    );
+
+    if (this.debugMode && this.scene) {
+      const debugMesh = surface.getOrientedBoundingBox().createDebugMesh();
+      this.debugMeshes.push(debugMesh);
+      this.scene.add(debugMesh);
+    }
+  }
+
   public checkCollision(
     position: THREE.Vector3,
     radius: number = 0.5,
@@ -65,9 +359,10 @@ export class CollisionSystem {
   ): boolean {
     // Create a bounding sphere for the player/entity
     const boundingSphere = new THREE.Sphere(position, radius);
+    const bounds = boundingSphere.getBoundingBox(new THREE.Box3());
 
-    // Check for collisions with all collidable objects
-    for (const collidable of this.collidables) {
+    // Check for collisions with the collidable objects near the sphere
+    for (const collidable of this.getCollidablesNear(bounds)) {
       // Skip if this is the object we're checking for (self-collision prevention)
       if (ignoreObject && collidable === ignoreObject) {
         continue;
@@ -82,6 +377,13 @@ export class CollisionSystem {
       }
     }
 
+    // Sector floors and ceilings do their own tests
+    for (const surface of this.getSurfacesNear(bounds)) {
+      if (surface.sphereCollisionInfo(boundingSphere).collision) {
+        return true;
+      }
+    }
+
     return false; // No collision
   }
 
@@ -102,11 +404,13 @@ export class CollisionSystem {
       collidable: null as Collidable | null,
     };
 
+    const bounds = boundingSphere.getBoundingBox(new THREE.Box3());
+
     // Track the minimum penetration depth to find the most significant collision
     let minPenetrationDepth = Infinity;
 
-    // Check for collisions with all collidable objects
-    for (const collidable of this.collidables) {
+    // Check for collisions with the collidable objects near the sphere
+    for (const collidable of this.getCollidablesNear(bounds)) {
       // Skip if this is the object we're checking for (self-collision prevention)
       if (ignoreObject && collidable === ignoreObject) {
         continue;
@@ -133,20 +437,153 @@ export class CollisionSystem {
       }
     }
 
+    // Sector floors and ceilings do their own tests
+    for (const surface of this.getSurfacesNear(bounds)) {
+      const collisionInfo = surface.sphereCollisionInfo(boundingSphere);
+
+      if (collisionInfo.collision && collisionInfo.penetration) {
+        result.collision = true;
+
+        const penetrationDepth = collisionInfo.penetration.length();
+        if (penetrationDepth < minPenetrationDepth) {
+          minPenetrationDepth = penetrationDepth;
+          result.penetration = collisionInfo.penetration;
+          result.collidable = surface;
+        }
+      }
+    }
+
     return result;
   }
 
+  /**
+   * Move a sphere from start to end and find the first thing it touches on
+   * the way, or null if the path is clear. Unlike checkCollision this can't
+   * step over a thin wall, however long the move.
+   */
+  public sweepSphere(
+    start: THREE.Vector3,
+    end: THREE.Vector3,
+    radius: number = 0.5,
+    ignoreObject?: Collidable
+  ): SweepResult | null {
+    // Everything the sphere passes through
+    const bounds = new THREE.Box3()
+      .setFromPoints([start, end])
+      .expandByScalar(radius);
+
+    let hit: SweepHit | null = null;
+    let hitCollidable: Collidable | null = null;
+    const nearby = [
+      ...this.getCollidablesNear(bounds),
+      ...this.getSurfacesNear(bounds),
+    ];
+
+    for (const collidable of nearby) {
+      if (ignoreObject && collidable === ignoreObject) {
+        continue;
+      }
+
+      // Sector floors and ceilings do their own tests
+      const candidate =
+        collidable instanceof SectorSurface
+          ? collidable.sweepSphere(start, end, radius)
+          : collidable.getOrientedBoundingBox().sweepSphere(start, end, radius);
+
+      if (candidate && (!hit || candidate.time < hit.time)) {
+        hit = candidate;
+        hitCollidable = collidable;
+      }
+    }
+
+    if (!hit || !hitCollidable) return null;
+    const { time, normal } = hit;
+
+    // Back off along the move so the mover isn't left touching
+    const distance = start.distanceTo(end);
+    const stopTime =
+      distance > 0 ? Math.max(0, time - SWEEP_SKIN / distance) : 0;
+
+    return {
+      time,
+      normal,
+      position: start.clone().lerp(end, stopTime),
+      collidable: hitCollidable,
+    };
+  }
+
+  /**
+   * Find the nearest thing a ray hits within maxDistance, or null if
+   * nothing is in the way. For hitscan weapons, line of sight, the use key
+   * and picking. The filter, if given, skips collidables it returns false for.
+   */
+  public raycast(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    maxDistance: number,
+    filter?: RaycastFilter
+  ): RaycastResult | null {
+    const rayDirection = direction.clone().normalize();
+    const end = origin.clone().addScaledVector(rayDirection, maxDistance);
+    const bounds = new THREE.Box3().setFromPoints([origin, end]);
+
+    let hit: RayHit | null = null;
+    let hitCollidable: Collidable | null = null;
+    const nearby = [
+      ...this.getCollidablesNear(bounds),
+      ...this.getSurfacesNear(bounds),
+    ];
+
+    for (const collidable of nearby) {
+      if (filter && !filter(collidable)) {
+        continue;
+      }
+
+      // Sector floors and ceilings do their own tests
+      const candidate =
+        collidable instanceof SectorSurface
+          ? collidable.intersectRay(origin, rayDirection, maxDistance)
+          : collidable
+              .getOrientedBoundingBox()
+              .intersectRay(origin, rayDirection, maxDistance);
+
+      if (candidate && (!hit || candidate.distance < hit.distance)) {
+        hit = candidate;
+        hitCollidable = collidable;
+      }
+    }
+
+    if (!hit || !hitCollidable) return null;
+
+    return {
+      collidable: hitCollidable,
+      point: origin.clone().addScaledVector(rayDirection, hit.distance),
+      normal: hit.normal,
+      distance: hit.distance,
+    };
+  }
+
+  /**
+   * Whether nothing blocks the straight line between two points
+   */
+  public hasLineOfSight(
+    from: THREE.Vector3,
+    to: THREE.Vector3,
+    filter?: RaycastFilter
+  ): boolean {
+    const direction = new THREE.Vector3().subVectors(to, from);
+    const distance = direction.length();
+    if (distance === 0) return true;
+
+    return this.raycast(from, direction, distance, filter) === null;
+  }
+
   public checkGroundCollision(
     position: THREE.Vector3,
     radius: number = 0.5,
     height: number = 3.0,
     ignoreObject?: Collidable
-  ): {
-    collision: boolean;
-    groundY: number | null;
-    normal: THREE.Vector3 | null;
-    collidable: Collidable | null;
-  } {
+  ): GroundCollisionResult {
     const result = {
       collision: false,
       groundY: null as number | null,
@@ -154,13 +591,30 @@ export class CollisionSystem {
       collidable: null as Collidable | null,
     };
 
+    // Sector floors have exact heights: find the highest one below us
+    const sectorFloor = this.findSectorFloor(position, height, ignoreObject);
+
     // Cast a ray downward from position
     const rayStart = position.clone();
     const rayEnd = position.clone();
     rayEnd.y -= height; // Cast down by the player height
 
-    // Check each collidable for intersection
-    for (const collidable of this.collidables) {
+    // Everything the test spheres below can reach
+    const bounds = new THREE.Box3(
+      new THREE.Vector3(
+        position.x - radius,
+        rayEnd.y - radius,
+        position.z - radius
+      ),
+      new THREE.Vector3(
+        position.x + radius,
+        position.y + radius,
+        position.z + radius
+      )
+    );
+
+    // Check each nearby collidable for intersection
+    for (const collidable of this.getCollidablesNear(bounds)) {
       // Skip self-collision if needed
       if (ignoreObject && collidable === ignoreObject) {
         continue;
@@ -187,7 +641,8 @@ export class CollisionSystem {
 
         if (collisionInfo.collision && collisionInfo.penetration) {
           result.collision = true;
-          result.groundY = testSphere.center.y + testSphere.radius;
+          // The ground is where the sphere touches the box, not the sphere's top
+          result.groundY = obb.closestPointToPoint(testSphere.center).y;
           result.normal = collisionInfo.penetration.clone().normalize();
           result.collidable = collidable;
 
@@ -195,7 +650,7 @@ export class CollisionSystem {
           // Check if the normal is pointing mostly upward
           if (result.normal && result.normal.y > 0.7) {
             // This is likely a floor, not a wall - exit early
-            return result;
+            return this.preferHigherGround(result, sectorFloor);
           }
 
           // If it's a wall (normal is horizontal), continue checking
@@ -204,7 +659,86 @@ export class CollisionSystem {
       }
     }
 
-    return result;
+    return this.preferHigherGround(result, sectorFloor);
+  }
+
+  private findSectorFloor(
+    position: THREE.Vector3,
+    height: number,
+    ignoreObject?: Collidable
+  ): SectorSurface | null {
+    let best: SectorSurface | null = null;
+    const bounds = new THREE.Box3(
+      new THREE.Vector3(position.x, position.y - height, position.z),
+      position.clone()
+    );
+
+    for (const surface of this.getSurfacesNear(bounds)) {
+      if (surface.type !== SurfaceType.FLOOR || surface === ignoreObject) {
+        continue;
+      }
+
+      if (
+        surface.height <= position.y &&
+        surface.height >= position.y - height &&
+        (!best || surface.height > best.height) &&
+        surface.containsPoint(position.x, position.z)
+      ) {
+        best = surface;
+      }
+    }
+
+    return best;
+  }
+
+  // Collidables whose bounds overlap the box, in the order they were added
+  private getCollidablesNear(bounds: THREE.Box3): Collidable[] {
+    return this.useBroadphase
+      ? this.collidableGrid.query(bounds)
+      : this.collidables;
+  }
+
+  private getSurfacesNear(bounds: THREE.Box3): SectorSurface[] {
+    return this.useBroadphase ? this.surfaceGrid.query(bounds) : this.surfaces;
+  }
+
+  // Combine a ground check result with a sector floor, keeping whichever is higher
+  private preferHigherGround(
+    result: GroundCollisionResult,
+    sectorFloor: SectorSurface | null
+  ): GroundCollisionResult {
+    if (!sectorFloor) return result;
+
+    const isFloorHit =
+      result.collision &&
+      result.groundY !== null &&
+      result.normal !== null &&
+      result.normal.y > 0.7;
+
+    if (isFloorHit && result.groundY! >= sectorFloor.height) {
+      return result;
+    }
+
+    return {
+      collision: true,
+      groundY: sectorFloor.height,
+      normal: new THREE.Vector3(0, 1, 0),
+      collidable: sectorFloor,
+    };
+  }
+
+  // Remove every collidable, e.g. when the level is unloaded
+  public clear(): void {
+    this.debugMeshes.forEach((mesh) => {
+      if (this.scene) this.scene.remove(mesh);
+    });
+    this.debugMeshes = [];
+    this.collidables = [];
+    this.surfaces = [];
+    this.dynamicCollidables = [];
+    this.collidableGrid.clear();
+    this.surfaceGrid.clear();
+    this.wallNormals.clear();
   }
 
   // Update debug visualizations
@@ -218,7 +752,7 @@ export class CollisionSystem {
     this.debugMeshes = [];
 
     // Add new debug meshes
-    this.collidables.forEach((collidable) => {
+    [...this.collidables, ...this.surfaces].forEach((collidable) => {
       const debugMesh = collidable.getOrientedBoundingBox().createDebugMesh();
       this.debugMeshes.push(debugMesh);
       if (this.scene) this.scene.add(debugMesh);
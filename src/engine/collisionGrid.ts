@@ -0,0 +1,198 @@
+import * as THREE from "three";
+
+// World units per grid cell. A little wider than the player's collision
+// sphere, so most queries only touch a handful of cells.
+const DEFAULT_CELL_SIZE = 8;
+
+// Items covering more cells than this are kept in one list that every
+// query checks, rather than in thousands of cells
+const MAX_ITEM_CELLS = 1024;
+
+// Cell coordinates are packed into one number; this keeps them positive
+const CELL_OFFSET = 1 << 20;
+const CELL_STRIDE = 1 << 21;
+
+interface CellRange {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+interface GridEntry {
+  order: number; // Insertion order, so queries return items as added
+  bounds: THREE.Box3;
+  cells: CellRange | null; // Null for oversized items
+}
+
+/**
+ * A uniform grid over the x/z plane for finding what might touch a box.
+ * Items are bucketed by their bounds into every cell they overlap; queries
+ * return the items in the cells a box covers whose bounds overlap it,
+ * in the order they were inserted.
+ */
+export class CollisionGrid<T> {
+  private cellSize: number;
+  private cells: Map<number, T[]> = new Map();
+  private entries: Map<T, GridEntry> = new Map();
+  private oversized: T[] = [];
+  private nextOrder: number = 0;
+
+  constructor(cellSize: number = DEFAULT_CELL_SIZE) {
+    this.cellSize = cellSize;
+  }
+
+  public insert(item: T, bounds: THREE.Box3): void {
+    if (this.entries.has(item)) {
+      this.update(item, bounds);
+      return;
+    }
+
+    const entry: GridEntry = {
+      order: this.nextOrder++,
+      bounds: bounds.clone(),
+      cells: this.getItemCells(bounds),
+    };
+    this.entries.set(item, entry);
+    this.addToCells(item, entry.cells);
+  }
+
+  // Re-bucket an item whose bounds changed, e.g. a door that moved
+  public update(item: T, bounds: THREE.Box3): void {
+    const entry = this.entries.get(item);
+    if (!entry) {
+      this.insert(item, bounds);
+      return;
+    }
+
+    entry.bounds.copy(bounds);
+    const cells = this.getItemCells(bounds);
+    if (
+      cells &&
+      entry.cells &&
+      cells.minX === entry.cells.minX &&
+      cells.maxX === entry.cells.maxX &&
+      cells.minZ === entry.cells.minZ &&
+      cells.maxZ === entry.cells.maxZ
+    ) {
+      return;
+    }
+
+    this.removeFromCells(item, entry.cells);
+    entry.cells = cells;
+    this.addToCells(item, cells);
+  }
+
+  public remove(item: T): void {
+    const entry = this.entries.get(item);
+    if (!entry) return;
+
+    this.removeFromCells(item, entry.cells);
+    this.entries.delete(item);
+  }
+
+  public query(bounds: THREE.Box3): T[] {
+    const range = this.getCellRange(bounds);
+    const found: Set<T> = new Set();
+    const addIfOverlapping = (item: T) => {
+      if (
+        !found.has(item) &&
+        this.entries.get(item)!.bounds.intersectsBox(bounds)
+      ) {
+        found.add(item);
+      }
+    };
+
+    if (!(CollisionGrid.countCells(range) <= this.cells.size)) {
+      // Covers more cells than are in use: cheaper to check everything
+      this.entries.forEach((_entry, item) => addIfOverlapping(item));
+    } else {
+      for (let x = range.minX; x <= range.maxX; x++) {
+        for (let z = range.minZ; z <= range.maxZ; z++) {
+          this.cells
+            .get(CollisionGrid.cellKey(x, z))
+            ?.forEach(addIfOverlapping);
+        }
+      }
+      this.oversized.forEach(addIfOverlapping);
+    }
+
+    // Results don't depend on how items fall into cells
+    return Array.from(found).sort(
+      (a, b) => this.entries.get(a)!.order - this.entries.get(b)!.order
+    );
+  }
+
+  public getItems(): T[] {
+    return Array.from(this.entries.keys());
+  }
+
+  public clear(): void {
+    this.cells.clear();
+    this.entries.clear();
+    this.oversized = [];
+    this.nextOrder = 0;
+  }
+
+  private getCellRange(bounds: THREE.Box3): CellRange {
+    return {
+      minX: Math.floor(bounds.min.x / this.cellSize),
+      maxX: Math.floor(bounds.max.x / this.cellSize),
+      minZ: Math.floor(bounds.min.z / this.cellSize),
+      maxZ: Math.floor(bounds.max.z / this.cellSize),
+    };
+  }
+
+  // The cells an item goes in, or null if it covers too many
+  private getItemCells(bounds: THREE.Box3): CellRange | null {
+    const range = this.getCellRange(bounds);
+    return CollisionGrid.countCells(range) <= MAX_ITEM_CELLS ? range : null;
+  }
+
+  private addToCells(item: T, range: CellRange | null): void {
+    if (!range) {
+      this.oversized.push(item);
+      return;
+    }
+
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let z = range.minZ; z <= range.maxZ; z++) {
+        const key = CollisionGrid.cellKey(x, z);
+        const items = this.cells.get(key);
+        if (items) {
+          items.push(item);
+        } else {
+          this.cells.set(key, [item]);
+        }
+      }
+    }
+  }
+
+  private removeFromCells(item: T, range: CellRange | null): void {
+    if (!range) {
+      this.oversized.splice(this.oversized.indexOf(item), 1);
+      return;
+    }
+
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let z = range.minZ; z <= range.maxZ; z++) {
+        const key = CollisionGrid.cellKey(x, z);
+        const items = this.cells.get(key);
+        if (!items) continue;
+
+        const index = items.indexOf(item);
+        if (index !== -1) items.splice(index, 1);
+        if (items.length === 0) this.cells.delete(key);
+      }
+    }
+  }
+
+  // Infinite or NaN for unbounded ranges
+  private static countCells(range: CellRange): number {
+    return (range.maxX - range.minX + 1) * (range.maxZ - range.minZ + 1);
+  }
+
+  private static cellKey(x: number, z: number): number {
+    return (x + CELL_OFFSET) * CELL_STRIDE + (z + CELL_OFFSET);
+  }
+}
@@ -0,0 +1,53 @@
+import * as THREE from "three";
+import { IFog } from "../types/level";
+
+const DEFAULT_FOG_COLOR = "#000000";
+
+// One uniform shared by every fogged material, so a level's band count
+// reaches them all without touching each one
+const fogBands = { value: 0 };
+
+// three's fog mix, with the fade rounded down to whole bands when banding
+// is on. Doom's light diminishing steps the same way.
+const BANDED_FOG_FRAGMENT = `
+#ifdef USE_FOG
+  #ifdef FOG_EXP2
+    float fogFactor = 1.0 - exp( - fogDensity * fogDensity * vFogDepth * vFogDepth );
+  #else
+    float fogFactor = smoothstep( fogNear, fogFar, vFogDepth );
+  #endif
+  if ( fogBands > 0.0 ) {
+    fogFactor = floor( fogFactor * fogBands ) / fogBands;
+  }
+  gl_FragColor.rgb = mix( gl_FragColor.rgb, fogColor, fogFactor );
+#endif
+`;
+
+/**
+ * Let a world material follow the level's fog banding. Materials fade
+ * into plain fog without this; banding needs the patched shader.
+ */
+export function applyDistanceFog(material: THREE.Material): void {
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.fogBands = fogBands;
+    shader.fragmentShader = shader.fragmentShader
+      .replace(
+        "#include <fog_pars_fragment>",
+        "#include <fog_pars_fragment>\nuniform float fogBands;"
+      )
+      .replace("#include <fog_fragment>", BANDED_FOG_FRAGMENT);
+  };
+  // Keep patched and unpatched materials from sharing a program
+  material.customProgramCacheKey = () => "distanceFog";
+}
+
+/**
+ * The scene fog for a level's settings, or null to see to the far plane.
+ * Also sets the band count used by every material with applyDistanceFog.
+ */
+export function createDistanceFog(fog: IFog | null): THREE.Fog | null {
+  fogBands.value = fog?.bands ?? 0;
+  if (!fog) return null;
+
+  return new THREE.Fog(fog.color ?? DEFAULT_FOG_COLOR, fog.start, fog.end);
+}
@@ -0,0 +1,173 @@
+import * as THREE from "three";
+import { Wall } from "./collision";
+import { DoorDirection, KeyColor } from "../types/level";
+
+export enum DoorState {
+  CLOSED,
+  OPENING,
+  OPEN,
+  CLOSING,
+}
+
+// Something that can stand in a doorway and stop it closing
+export interface DoorBlocker {
+  position: THREE.Vector3;
+  radius: number;
+}
+
+export class Door {
+  public id: string | null;
+  public mesh: THREE.Mesh;
+  public collidable: Wall;
+  public state: DoorState = DoorState.CLOSED;
+  public speed: number; // Units per second
+  public waitTime: number; // ms
+  public requiredKey: KeyColor | null;
+
+  private closedPosition: THREE.Vector3;
+  private openPosition: THREE.Vector3;
+  private openAmount: number = 0; // 0 = closed, 1 = fully open
+  private travelDistance: number;
+  private openTimer: number = 0;
+
+  constructor(
+    mesh: THREE.Mesh,
+    direction: DoorDirection,
+    id: string | null = null,
+    speed: number = 4,
+    waitTime: number = 3000,
+    requiredKey: KeyColor | null = null
+  ) {
+    this.id = id;
+    this.requiredKey = requiredKey;
+    this.mesh = mesh;
+    this.speed = speed;
+    this.waitTime = waitTime;
+
+    // Doors collide like walls; the OBB follows the mesh as it moves
+    this.collidable = new Wall(mesh);
+
+    const geometry = mesh.geometry;
+    if (!geometry.boundingBox) {
+      geometry.computeBoundingBox();
+    }
+    const size = geometry.boundingBox!.getSize(new THREE.Vector3());
+
+    // Slide along the door's own axes: up/down by its height,
+    // sideways by its width
+    let offset: THREE.Vector3;
+    switch (direction) {
+      case "up":
+        offset = new THREE.Vector3(0, size.y, 0);
+        break;
+      case "down":
+        offset = new THREE.Vector3(0, -size.y, 0);
+        break;
+      case "left":
+        offset = new THREE.Vector3(-size.x, 0, 0);
+        break;
+      case "right":
+        offset = new THREE.Vector3(size.x, 0, 0);
+        break;
+    }
+    offset.applyQuaternion(mesh.quaternion);
+
+    this.closedPosition = mesh.position.clone();
+    this.openPosition = mesh.position.clone().add(offset);
+    this.travelDistance = offset.length();
+  }
+
+  /**
+   * Activate the door. Returns true if it started moving.
+   */
+  public use(): boolean {
+    switch (this.state) {
+      case DoorState.CLOSED:
+      case DoorState.CLOSING:
+        this.state = DoorState.OPENING;
+        return true;
+
+      case DoorState.OPEN:
+        // Using an open door restarts its timer
+        this.openTimer = 0;
+        return false;
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Use the door by hand. As in Doom, a door that is open or still opening
+   * starts closing early; otherwise this is the same as use().
+   */
+  public toggle(): boolean {
+    if (this.state === DoorState.OPEN || this.state === DoorState.OPENING) {
+      this.state = DoorState.CLOSING;
+      return true;
+    }
+
+    return this.use();
+  }
+
+  public isOpen(): boolean {
+    return this.state === DoorState.OPEN;
+  }
+
+  public update(deltaTime: number, blockers: DoorBlocker[]): void {
+    const step =
+      this.travelDistance > 0
+        ? (this.speed * deltaTime) / 1000 / this.travelDistance
+        : 1;
+
+    switch (this.state) {
+      case DoorState.OPENING:
+        this.setOpenAmount(this.openAmount + step);
+        if (this.openAmount >= 1) {
+          this.state = DoorState.OPEN;
+          this.openTimer = 0;
+        }
+        break;
+
+      case DoorState.OPEN:
+        this.openTimer += deltaTime;
+        if (this.openTimer >= this.waitTime) {
+          this.state = DoorState.CLOSING;
+        }
+        break;
+
+      case DoorState.CLOSING: {
+        const previousAmount = this.openAmount;
+        this.setOpenAmount(this.openAmount - step);
+
+        // Back off and reopen if the door would close on someone
+        if (this.isBlocked(blockers)) {
+          this.setOpenAmount(previousAmount);
+          this.state = DoorState.OPENING;
+          break;
+        }
+
+        if (this.openAmount <= 0) {
+          this.state = DoorState.CLOSED;
+        }
+        break;
+      }
+    }
+  }
+
+  private isBlocked(blockers: DoorBlocker[]): boolean {
+    const obb = this.collidable.getOrientedBoundingBox();
+    return blockers.some((blocker) =>
+      obb.intersectsSphere(new THREE.Sphere(blocker.position, blocker.radius))
+    );
+  }
+
+  private setOpenAmount(amount: number): void {
+    this.openAmount = Math.max(0, Math.min(1, amount));
+    this.mesh.position.lerpVectors(
+      this.closedPosition,
+      this.openPosition,
+      this.openAmount
+    );
+  }
+}
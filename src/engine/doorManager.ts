@@ -0,0 +1,82 @@
+import * as THREE from "three";
+import { Door, DoorBlocker } from "./door";
+import { CollisionSystem } from "./collision";
+import { Enemy } from "./enemy";
+import { Player } from "./player";
+import { findUsableInFront, USE_RANGE } from "./interaction";
+import { LevelEvents } from "./levelEvents";
+
+// How long the "you need a key" message stays up (ms)
+const LOCKED_MESSAGE_DURATION = 2000;
+
+export class DoorManager {
+  private doors: Door[];
+  private events: LevelEvents;
+
+  constructor(doors: Door[], events: LevelEvents) {
+    this.doors = doors;
+    this.events = events;
+  }
+
+  public update(deltaTime: number, player: Player, enemies: Enemy[]): void {
+    const blockers: DoorBlocker[] = [
+      {
+        position: player.getPosition(),
+        radius: player.getCollisionRadius(),
+      },
+      ...enemies.map((enemy) => ({
+        position: enemy.mesh.position,
+        radius: enemy.collisionRadius,
+      })),
+    ];
+
+    this.doors.forEach((door) => door.update(deltaTime, blockers));
+  }
+
+  public findUsableDoor(
+    position: THREE.Vector3,
+    direction: THREE.Vector3,
+    collisionSystem: CollisionSystem
+  ): Door | null {
+    return findUsableInFront(
+      this.doors,
+      (door) => door.collidable,
+      position,
+      direction,
+      USE_RANGE,
+      collisionSystem
+    );
+  }
+
+  /**
+   * Use the door in front of the player, if any. Returns the door used,
+   * even if it turned out to be locked.
+   */
+  public tryUse(player: Player, collisionSystem: CollisionSystem): Door | null {
+    const door = this.findUsableDoor(
+      player.getPosition(),
+      player.getDirection(),
+      collisionSystem
+    );
+    if (!door) return null;
+
+    if (door.requiredKey && !player.hasKey(door.requiredKey)) {
+      this.events.emit("message", {
+        text: `You need a ${door.requiredKey} keycard to open this door.`,
+        duration: LOCKED_MESSAGE_DURATION,
+      });
+      return door;
+    }
+
+    door.toggle();
+    return door;
+  }
+
+  public getDoors(): Door[] {
+    return this.doors;
+  }
+
+  public getDoorById(id: string): Door | null {
+    return this.doors.find((door) => door.id === id) ?? null;
+  }
+}
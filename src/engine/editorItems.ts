@@ -0,0 +1,354 @@
+import {
+  IBlock,
+  IFloor,
+  ILevel,
+  ISectorVertex,
+  IStep,
+  IWall,
+  TextureType,
+} from "../types/level";
+import { getWallEndpoints } from "./wallGeometry";
+
+// Walls thinner than this are drawn as single planes (see Level.createWall)
+const THIN_WALL_DEPTH = 0.1;
+
+// Click radius around point items, in world units
+const POINT_ITEM_RADIUS = 0.75;
+
+export type EditorItemKind =
+  | "wall"
+  | "floor"
+  | "step"
+  | "block"
+  | "enemy"
+  | "spawn";
+
+/**
+ * Something in the level the editor can select. Room surfaces are found by
+ * room and index; enemies and spawn points only by index.
+ */
+export interface EditorItem {
+  kind: EditorItemKind;
+  room: number;
+  index: number;
+}
+
+// Texture types each kind of surface can use
+export const ITEM_TEXTURE_TYPES: Partial<
+  Record<EditorItemKind, TextureType[]>
+> = {
+  wall: ["wall"],
+  floor: ["floor"],
+  step: ["step", "block"],
+  block: ["step", "block"],
+};
+
+type RoomSurface = IWall | IFloor | IStep | IBlock;
+
+/**
+ * Every selectable item, in drawing order (floors at the bottom, the
+ * spawn point on top)
+ */
+export function listItems(level: ILevel): EditorItem[] {
+  const items: EditorItem[] = [];
+  const surfaceKinds: EditorItemKind[] = ["floor", "block", "step", "wall"];
+
+  surfaceKinds.forEach((kind) => {
+    level.rooms.forEach((_room, room) => {
+      const surfaces = getRoomList(level, { kind, room, index: 0 }) ?? [];
+      surfaces.forEach((_surface, index) => items.push({ kind, room, index }));
+    });
+  });
+
+  (level.enemies ?? []).forEach((_enemy, index) => {
+    items.push({ kind: "enemy", room: -1, index });
+  });
+  level.spawnPoints.forEach((_spawnPoint, index) => {
+    items.push({ kind: "spawn", room: -1, index });
+  });
+
+  return items;
+}
+
+function getRoomList(level: ILevel, item: EditorItem): RoomSurface[] | null {
+  const room = level.rooms[item.room];
+  if (!room) return null;
+
+  switch (item.kind) {
+    case "wall":
+      return room.walls;
+    case "floor":
+      return room.floors;
+    case "step":
+      return room.steps ?? null;
+    case "block":
+      return room.blocks ?? null;
+    default:
+      return null;
+  }
+}
+
+function getSurface(level: ILevel, item: EditorItem): RoomSurface | null {
+  return getRoomList(level, item)?.[item.index] ?? null;
+}
+
+/**
+ * The item's footprint in the x/z plane: two points for a thin wall, one
+ * for enemies and spawn points, otherwise the corners of its box
+ */
+export function getItemOutline(
+  level: ILevel,
+  item: EditorItem
+): ISectorVertex[] {
+  if (item.kind === "spawn") {
+    const spawnPoint = level.spawnPoints[item.index];
+    return spawnPoint ? [{ x: spawnPoint.x, z: spawnPoint.z }] : [];
+  }
+
+  if (item.kind === "enemy") {
+    const enemy = level.enemies?.[item.index];
+    return enemy ? [{ x: enemy.x, z: enemy.z }] : [];
+  }
+
+  const surface = getSurface(level, item);
+  if (!surface) return [];
+
+  if (item.kind === "floor") {
+    const floor = surface as IFloor;
+    return getBoxCorners(floor.x, floor.z, floor.width, floor.length, 0);
+  }
+
+  if (item.kind === "wall") {
+    const wall = surface as IWall;
+    if (wall.depth < THIN_WALL_DEPTH) {
+      return getWallEndpoints(wall);
+    }
+    return getBoxCorners(wall.x, wall.z, wall.width, wall.depth, wall.rotation);
+  }
+
+  const box = surface as IStep | IBlock;
+  return getBoxCorners(box.x, box.z, box.width, box.depth, box.rotation);
+}
+
+// Corners of a width x depth box centred on (x, z) and turned about y
+export function getBoxCorners(
+  x: number,
+  z: number,
+  width: number,
+  depth: number,
+  rotation: number
+): ISectorVertex[] {
+  // Local x maps to (cos r, -sin r) and local z to (sin r, cos r)
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const halfWidth = width / 2;
+  const halfDepth = depth / 2;
+
+  return [
+    [-1, -1],
+    [1, -1],
+    [1, 1],
+    [-1, 1],
+  ].map(([u, v]) => ({
+    x: x + u * halfWidth * cos + v * halfDepth * sin,
+    z: z - u * halfWidth * sin + v * halfDepth * cos,
+  }));
+}
+
+/**
+ * Whether a point in the x/z plane lands on the item, within a tolerance
+ * in world units for lines and points
+ */
+export function hitTestItem(
+  level: ILevel,
+  item: EditorItem,
+  point: ISectorVertex,
+  tolerance: number
+): boolean {
+  const outline = getItemOutline(level, item);
+
+  if (outline.length === 1) {
+    return distance(point, outline[0]) <= POINT_ITEM_RADIUS + tolerance;
+  }
+
+  if (outline.length === 2) {
+    return distanceToSegment(point, outline[0], outline[1]) <= tolerance;
+  }
+
+  return outline.length > 2 && containsPoint(outline, point);
+}
+
+function distance(a: ISectorVertex, b: ISectorVertex): number {
+  return Math.hypot(a.x - b.x, a.z - b.z);
+}
+
+function distanceToSegment(
+  point: ISectorVertex,
+  start: ISectorVertex,
+  end: ISectorVertex
+): number {
+  const dx = end.x - start.x;
+  const dz = end.z - start.z;
+  const lengthSq = dx * dx + dz * dz;
+  const t =
+    lengthSq > 0
+      ? Math.max(
+          0,
+          Math.min(
+            1,
+            ((point.x - start.x) * dx + (point.z - start.z) * dz) / lengthSq
+          )
+        )
+      : 0;
+  return distance(point, { x: start.x + t * dx, z: start.z + t * dz });
+}
+
+// Even-odd point in polygon test
+function containsPoint(
+  polygon: ISectorVertex[],
+  point: ISectorVertex
+): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.z > point.z !== b.z > point.z) {
+      const crossX = a.x + ((point.z - a.z) * (b.x - a.x)) / (b.z - a.z);
+      if (point.x < crossX) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function moveItem(
+  level: ILevel,
+  item: EditorItem,
+  dx: number,
+  dz: number
+): void {
+  const target =
+    item.kind === "spawn"
+      ? level.spawnPoints[item.index]
+      : item.kind === "enemy"
+      ? level.enemies?.[item.index]
+      : getSurface(level, item);
+  if (!target) return;
+
+  target.x += dx;
+  target.z += dz;
+}
+
+/**
+ * Turn an item a quarter turn about y. Floors are always axis-aligned, so
+ * they swap their width and length instead.
+ */
+export function rotateItem(level: ILevel, item: EditorItem): void {
+  const quarterTurn = Math.PI / 2;
+
+  if (item.kind === "spawn") {
+    const spawnPoint = level.spawnPoints[item.index];
+    if (spawnPoint) {
+      spawnPoint.rotation = normalizeAngle(spawnPoint.rotation + quarterTurn);
+    }
+    return;
+  }
+
+  const surface = getSurface(level, item);
+  if (!surface) return;
+
+  if (item.kind === "floor") {
+    const floor = surface as IFloor;
+    [floor.width, floor.length] = [floor.length, floor.width];
+    return;
+  }
+
+  const rotated = surface as IWall | IStep | IBlock;
+  rotated.rotation = normalizeAngle(rotated.rotation + quarterTurn);
+
+  if ("normal" in rotated && rotated.normal) {
+    // Turn the normal with the surface: r about y maps (x, z) to
+    // (x cos r + z sin r, -x sin r + z cos r)
+    const { x, z } = rotated.normal;
+    rotated.normal = {
+      x: roundAxis(z),
+      y: rotated.normal.y,
+      z: roundAxis(-x),
+    };
+  }
+}
+
+// Keep angles in (-PI, PI] so exported maps stay readable
+function normalizeAngle(angle: number): number {
+  let normalized = angle % (Math.PI * 2);
+  if (normalized > Math.PI) normalized -= Math.PI * 2;
+  if (normalized <= -Math.PI) normalized += Math.PI * 2;
+  return normalized;
+}
+
+// Avoid -0 and 6e-17 creeping into exported normals
+function roundAxis(value: number): number {
+  const rounded = Math.round(value * 1e6) / 1e6;
+  return rounded === 0 ? 0 : rounded;
+}
+
+// Make a wall face the other way
+export function flipItem(level: ILevel, item: EditorItem): void {
+  if (item.kind !== "wall") return;
+
+  const wall = getSurface(level, item) as IWall | null;
+  if (!wall) return;
+
+  wall.normal = {
+    x: roundAxis(-wall.normal.x),
+    y: wall.normal.y,
+    z: roundAxis(-wall.normal.z),
+  };
+}
+
+// Remove an item. The last spawn point can only be moved.
+export function deleteItem(level: ILevel, item: EditorItem): void {
+  if (item.kind === "enemy") {
+    level.enemies?.splice(item.index, 1);
+    return;
+  }
+
+  if (item.kind === "spawn") {
+    if (level.spawnPoints.length > 1) {
+      level.spawnPoints.splice(item.index, 1);
+    }
+    return;
+  }
+
+  getRoomList(level, item)?.splice(item.index, 1);
+}
+
+export function getItemTexture(level: ILevel, item: EditorItem): string | null {
+  return getSurface(level, item)?.texture ?? null;
+}
+
+export function setItemTexture(
+  level: ILevel,
+  item: EditorItem,
+  texture: string
+): void {
+  const surface = getSurface(level, item);
+  if (surface) {
+    surface.texture = texture;
+  }
+}
+
+export function describeItem(level: ILevel, item: EditorItem): string {
+  if (item.kind === "spawn") {
+    const spawnPoint = level.spawnPoints[item.index];
+    return spawnPoint ? `Spawn point (${spawnPoint.tag})` : "Spawn point";
+  }
+
+  if (item.kind === "enemy") {
+    const enemy = level.enemies?.[item.index];
+    return enemy ? `Enemy (${enemy.type})` : "Enemy";
+  }
+
+  const texture = getItemTexture(level, item);
+  const name = item.kind.charAt(0).toUpperCase() + item.kind.slice(1);
+  return `${name} in room ${item.room + 1}${texture ? ` (${texture})` : ""}`;
+}
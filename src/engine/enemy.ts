@@ -2,6 +2,8 @@ import * as THREE from "three";
 import { Collidable, CollisionSystem } from "./collision";
 import { OrientedBoundingBox } from "./orientedBoundingBox";
 import { Player } from "./player";
+import { Platform } from "./platform";
+import { applyDistanceFog } from "./distanceFog";
 
 export enum EnemyState {
   IDLE,
@@ -91,6 +93,7 @@ export class Enemy implements Collidable {
     // Create a placeholder mesh until the model is loaded
     const geometry = new THREE.CylinderGeometry(0.5, 0.5, 2, 8);
     const material = new THREE.MeshBasicMaterial({ color: 0xff0000 });
+    applyDistanceFog(material);
     this.mesh = new THREE.Mesh(geometry, material);
     this.mesh.position.copy(position);
 
@@ -149,14 +152,22 @@ export class Enemy implements Collidable {
       this.animationMixer.update(deltaTime / 1000);
     }
 
+    // Ride along with a moving platform we're standing on
+    this.rideMovingPlatform(collisionSystem);
+
     // Get player position
     const playerPosition = player.getPosition();
 
     // Calculate distance to player
     const distanceToPlayer = this.mesh.position.distanceTo(playerPosition);
 
+    // Walls and closed doors hide the player; only look when in range
+    const canSeePlayer =
+      distanceToPlayer <= this.detectionRange &&
+      collisionSystem.hasLineOfSight(this.mesh.position, playerPosition);
+
     // Update state based on distance to player and current state
-    this.updateState(distanceToPlayer);
+    this.updateState(distanceToPlayer, canSeePlayer);
 
     // Handle behavior based on current state
     switch (this.state) {
@@ -200,12 +211,13 @@ export class Enemy implements Collidable {
     }
   }
 
-  public updateState(distanceToPlayer: number): void {
-    // State transition logic
+  public updateState(distanceToPlayer: number, canSeePlayer: boolean): void {
+    // State transition logic. Noticing the player takes sight of them;
+    // once chasing, enemies keep after the player until out of range.
     switch (this.state) {
       case EnemyState.IDLE:
       case EnemyState.PATROLLING:
-        if (distanceToPlayer <= this.detectionRange) {
+        if (canSeePlayer) {
           this.setState(EnemyState.CHASING);
         }
         break;
@@ -382,8 +394,16 @@ export class Enemy implements Collidable {
     );
 
     if (!collisionInfo.collision) {
+      // A fast enemy could otherwise step clean over a thin wall
+      const sweep = collisionSystem.sweepSphere(
+        originalPosition,
+        newPosition,
+        this.collisionRadius,
+        this
+      );
+
       // No collision, move freely
-      this.mesh.position.copy(newPosition);
+      this.mesh.position.copy(sweep ? sweep.position : newPosition);
       return;
     }
 
@@ -410,7 +430,7 @@ export class Enemy implements Collidable {
         const slidingPosition = originalPosition.clone().add(projectedMove);
 
         if (
-          !collisionSystem.checkCollision(slidingPosition, this.collisionRadius)
+          this.canMoveTo(collisionSystem, originalPosition, slidingPosition)
         ) {
           // Sliding successful
           this.mesh.position.copy(slidingPosition);
@@ -426,13 +446,15 @@ export class Enemy implements Collidable {
     const zOnlyMove = new THREE.Vector3(0, 0, moveVector.z);
     const zOnlyPosition = originalPosition.clone().add(zOnlyMove);
 
-    const canMoveX = !collisionSystem.checkCollision(
-      xOnlyPosition,
-      this.collisionRadius
+    const canMoveX = this.canMoveTo(
+      collisionSystem,
+      originalPosition,
+      xOnlyPosition
     );
-    const canMoveZ = !collisionSystem.checkCollision(
-      zOnlyPosition,
-      this.collisionRadius
+    const canMoveZ = this.canMoveTo(
+      collisionSystem,
+      originalPosition,
+      zOnlyPosition
     );
 
     // Apply valid movements
@@ -485,6 +507,42 @@ export class Enemy implements Collidable {
     updatePosition();
   }
 
+  // Follow the platform under us, staying just above it so it doesn't block our own movement
+  private rideMovingPlatform(collisionSystem: CollisionSystem): void {
+    const ground = collisionSystem.checkGroundCollision(
+      this.mesh.position,
+      this.collisionRadius,
+      0.5,
+      this
+    );
+    if (
+      !(ground.collidable instanceof Platform) ||
+      ground.groundY === null ||
+      ground.normal === null ||
+      ground.normal.y <= 0.7
+    ) {
+      return;
+    }
+
+    const displacement = ground.collidable.getDisplacement();
+    this.mesh.position.x += displacement.x;
+    this.mesh.position.z += displacement.z;
+    this.mesh.position.y = ground.groundY + this.collisionRadius + 0.01;
+  }
+
+  // Whether the enemy fits at `to` and can get there from `from` without
+  // passing through anything
+  private canMoveTo(
+    collisionSystem: CollisionSystem,
+    from: THREE.Vector3,
+    to: THREE.Vector3
+  ): boolean {
+    return (
+      !collisionSystem.checkCollision(to, this.collisionRadius) &&
+      !collisionSystem.sweepSphere(from, to, this.collisionRadius, this)
+    );
+  }
+
   private findBestSlidingDirection(
     startPos: THREE.Vector3,
     moveVector: THREE.Vector3,
@@ -518,8 +576,8 @@ export class Enemy implements Collidable {
       // Calculate test position
       const testPos = startPos.clone().add(rotatedDir);
 
-      // Skip if collision at this position
-      if (collisionSystem.checkCollision(testPos, this.collisionRadius)) {
+      // Skip if collision at this position or on the way there
+      if (!this.canMoveTo(collisionSystem, startPos, testPos)) {
         continue;
       }
 
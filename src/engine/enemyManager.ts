@@ -2,12 +2,40 @@ import * as THREE from "three";
 import { Enemy, EnemyType } from "./enemy";
 import { CollisionSystem } from "./collision";
 import { Player } from "./player";
+import { EnemyTypeName, IEnemyLocations } from "../types/level";
 
 export interface EnemySpawnPoint {
   position: THREE.Vector3;
   type: EnemyType;
 }
 
+// Map-file enemy type names (matched case-insensitively)
+export const ENEMY_TYPES: Record<EnemyTypeName, EnemyType> = {
+  imp: EnemyType.IMP,
+  zombie: EnemyType.ZOMBIE,
+  demon: EnemyType.DEMON,
+};
+
+export function parseEnemyType(name: string): EnemyType | null {
+  const typeName = name.toLowerCase();
+  return Object.prototype.hasOwnProperty.call(ENEMY_TYPES, typeName)
+    ? ENEMY_TYPES[typeName as EnemyTypeName]
+    : null;
+}
+
+/**
+ * Convert an enemy placement from level data into a spawn point, or null
+ * if its type isn't one we know
+ */
+export function createEnemySpawnPoint(
+  enemy: IEnemyLocations
+): EnemySpawnPoint | null {
+  const type = parseEnemyType(enemy.type);
+  if (type === null) return null;
+
+  return { position: new THREE.Vector3(enemy.x, enemy.y, enemy.z), type };
+}
+
 export class EnemyManager {
   private enemies: Enemy[] = [];
   private collisionSystem: CollisionSystem;
@@ -51,7 +79,9 @@ export class EnemyManager {
     });
   }
 
-  public removeDeadEnemies(): void {
+  // Returns how many enemies were removed
+  public removeDeadEnemies(): number {
+    const count = this.enemies.length;
     this.enemies = this.enemies.filter((enemy) => {
       // Check if enemy is dead and should be removed
       if (enemy.health <= 0) {
@@ -64,6 +94,7 @@ export class EnemyManager {
       }
       return true; // Keep in array
     });
+    return count - this.enemies.length;
   }
 
   public getEnemies(): Enemy[] {
@@ -0,0 +1,114 @@
+import * as THREE from "three";
+import {
+  ENEMY_TYPE_NAMES,
+  IExitProperties,
+  ILevelAction,
+  ITriggerProperties,
+  IVector3,
+  PICKUP_TYPE_NAMES,
+} from "../types/level";
+import { EntityDefinition, EntityRegistry } from "./entityRegistry";
+import { ENEMY_TYPES } from "./enemyManager";
+import { Trigger } from "./trigger";
+import { Secret } from "./secret";
+
+const DEFAULT_EXIT_SIZE: IVector3 = { x: 2, y: 3, z: 2 };
+
+// A box of the given size centred on the entity
+function createTriggerBounds(
+  position: THREE.Vector3,
+  size: IVector3
+): THREE.Box3 {
+  return new THREE.Box3().setFromCenterAndSize(
+    position,
+    new THREE.Vector3(size.x, size.y, size.z)
+  );
+}
+
+const TRIGGER_DEFINITION: EntityDefinition<ITriggerProperties> = {
+  properties: {
+    id: { type: "id", optional: true },
+    size: { type: "size" },
+    onEnter: { type: "actions", optional: true },
+    onExit: { type: "actions", optional: true },
+    onUse: { type: "actions", optional: true },
+    once: { type: "boolean", optional: true },
+    secret: { type: "boolean", optional: true },
+  },
+  check: (properties) =>
+    properties.onEnter ||
+    properties.onExit ||
+    properties.onUse ||
+    properties.secret
+      ? null
+      : "a trigger needs at least one of onEnter, onExit, onUse, secret",
+  spawn: (level, position, properties) => {
+    const bounds = createTriggerBounds(position, properties.size);
+    level.addTrigger(
+      new Trigger(
+        bounds,
+        {
+          enter: properties.onEnter,
+          exit: properties.onExit,
+          use: properties.onUse,
+        },
+        properties.id ?? null,
+        properties.once ?? true
+      )
+    );
+
+    if (properties.secret) {
+      level.addSecret(new Secret(bounds));
+    }
+  },
+};
+
+// Exits are triggers that end the level when walked into or used
+function createExitDefinition(
+  isSwitch: boolean
+): EntityDefinition<IExitProperties> {
+  return {
+    properties: {
+      size: { type: "size", optional: true },
+      nextLevel: { type: "string", optional: true },
+    },
+    spawn: (level, position, properties) => {
+      const actions: ILevelAction[] = [
+        { type: "endLevel", nextLevel: properties.nextLevel },
+      ];
+      level.addTrigger(
+        new Trigger(
+          createTriggerBounds(position, properties.size ?? DEFAULT_EXIT_SIZE),
+          isSwitch ? { use: actions } : { enter: actions },
+          null
+        )
+      );
+    },
+  };
+}
+
+/**
+ * Entity types understood by the engine. Games can register their own
+ * here before loading levels that use them.
+ */
+export const entityRegistry = new EntityRegistry();
+
+entityRegistry.register("trigger", TRIGGER_DEFINITION);
+entityRegistry.register("exit", createExitDefinition(false));
+entityRegistry.register("exitSwitch", createExitDefinition(true));
+
+PICKUP_TYPE_NAMES.forEach((type) =>
+  entityRegistry.register<object>(type, {
+    properties: {},
+    spawn: (level, position) => level.addPickupSpawnPoint({ position, type }),
+  })
+);
+
+// Enemies can be placed as entities as well as in the level's enemy list
+ENEMY_TYPE_NAMES.forEach((type) =>
+  entityRegistry.register<object>(type, {
+    properties: {},
+    spawn: (level, position) =>
+      level.addEnemySpawnPoint({ position, type: ENEMY_TYPES[type] }),
+  })
+);
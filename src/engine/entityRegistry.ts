@@ -0,0 +1,84 @@
+import * as THREE from "three";
+import { EnemySpawnPoint } from "./enemyManager";
+import { PickupSpawnPoint } from "./pickupManager";
+import { Secret } from "./secret";
+import { Trigger } from "./trigger";
+
+// Property value types an entity schema can ask for. "size" is a vector
+// with positive components, "actions" a list of level actions and "id" a
+// level-unique name other entities can refer to.
+export type EntityPropertyType =
+  | "number"
+  | "string"
+  | "boolean"
+  | "vector3"
+  | "size"
+  | "actions"
+  | "id";
+
+export interface EntityPropertyRule {
+  type: EntityPropertyType;
+  optional?: boolean;
+}
+
+// A rule for every property of P, so a schema can't drift from its type
+export type EntityPropertySchema<P> = { [K in keyof P]-?: EntityPropertyRule };
+
+/**
+ * What an entity can add to the level being built
+ */
+export interface LevelBuilder {
+  addTrigger(trigger: Trigger): void;
+  addPickupSpawnPoint(spawnPoint: PickupSpawnPoint): void;
+  addEnemySpawnPoint(spawnPoint: EnemySpawnPoint): void;
+  addObject(object: THREE.Object3D): void;
+  addSecret(secret: Secret): void;
+}
+
+/**
+ * How to check and build one type of map entity. The level validator
+ * checks properties against the schema, so spawn can trust them.
+ */
+export interface EntityDefinition<P extends object = Record<string, unknown>> {
+  properties: EntityPropertySchema<P>;
+  // Rules across properties that the schema can't express; returns an error
+  check?: (properties: P) => string | null;
+  spawn: (level: LevelBuilder, position: THREE.Vector3, properties: P) => void;
+}
+
+/**
+ * Entity types by the name map files use for them. The engine registers
+ * its own types (see entities.ts); games can add more before loading levels.
+ */
+export class EntityRegistry {
+  private definitions: Map<string, EntityDefinition> = new Map();
+
+  public register<P extends object>(
+    type: string,
+    definition: EntityDefinition<P>
+  ): void {
+    if (this.definitions.has(type)) {
+      throw new Error(`Entity type "${type}" is already registered`);
+    }
+    // Stored with P erased: the level validator checks properties against
+    // the schema before check or spawn ever sees them
+    const { properties, check, spawn } = definition;
+    this.definitions.set(type, {
+      properties,
+      check: check && ((values) => check(values as P)),
+      spawn: (level, position, values) => spawn(level, position, values as P),
+    });
+  }
+
+  public get(type: string): EntityDefinition | undefined {
+    return this.definitions.get(type);
+  }
+
+  public has(type: string): boolean {
+    return this.definitions.has(type);
+  }
+
+  public getTypeNames(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+}
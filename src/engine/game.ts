@@ -4,29 +4,158 @@ import { InputManager, Key } from "./input";
 import { Player } from "./player";
 import { Level } from "./level";
 import { EnemyManager } from "./enemyManager";
+import { LevelLoader } from "./levelLoader";
+import { formatValidationErrors, validateLevel } from "./levelValidator";
+import { DoorManager } from "./doorManager";
+import { PlatformManager } from "./platformManager";
+import { TriggerManager } from "./triggerManager";
+import { LevelEvents } from "./levelEvents";
+import { Hud } from "./hud";
+import { PickupManager } from "./pickupManager";
+import { SecretManager } from "./secretManager";
+import { LevelStats } from "./levelStats";
+import { Intermission } from "./intermission";
+import { LevelEditor } from "./levelEditor";
+import { ILevel, ISpawnPoint } from "../types/level";
+import { GameMode, IEpisode } from "../types/game";
+import level1 from "../maps/map.json";
+
+const DEFAULT_EPISODE: IEpisode = { name: "Episode 1", levels: ["level1"] };
+
+const SECRET_MESSAGE_DURATION = 3000; // ms
+const LOAD_FAILED_MESSAGE_DURATION = 3000; // ms
 
 export class Game {
   private renderer: Renderer;
   private inputManager: InputManager;
+  private levelLoader: LevelLoader;
+  private levelEvents: LevelEvents;
+  private hud: Hud;
+  private intermission: Intermission;
+  private editor: LevelEditor;
+  private levelStats: LevelStats = new LevelStats();
+  private episode: IEpisode = DEFAULT_EPISODE;
   private player: Player;
-  private level: Level;
-  private enemyManager: EnemyManager;
+  private level: Level | null = null;
+  private enemyManager: EnemyManager | null = null;
+  private doorManager: DoorManager | null = null;
+  private platformManager: PlatformManager | null = null;
+  private triggerManager: TriggerManager | null = null;
+  private pickupManager: PickupManager | null = null;
+  private secretManager: SecretManager | null = null;
+  private gameMode: GameMode;
+  private currentLevelId: string | null = null;
   private lastFrameTime: number = 0;
   private gameOver: boolean = false;
+  private isLevelComplete: boolean = false;
+  private isLoopRunning: boolean = false;
+  private isEditing: boolean = false;
+  private wasUsePressed: boolean = false;
+  private wasEditorPressed: boolean = false;
+
+  constructor(
+    container: HTMLElement,
+    initialLevelId: string = "level1",
+    gameMode: GameMode = "single"
+  ) {
+    this.gameMode = gameMode;
 
-  constructor(container: HTMLElement) {
     // Initialize systems
     this.renderer = new Renderer(container);
     this.inputManager = new InputManager();
-    this.level = new Level();
-    const spawnPoint = this.level.getSpawnPoint();
+
+    // Register the levels bundled with the game
+    this.levelLoader = new LevelLoader();
+    this.levelLoader.register("level1", level1 as ILevel);
+
+    // Under the dev server, edits to the bundled map are swapped into the
+    // running game instead of reloading the page
+    import.meta.webpackHot?.accept("../maps/map.json", () => {
+      this.levelLoader.register("level1", level1 as ILevel);
+      this.reloadLevel("level1").catch((error) => console.error(error));
+    });
+
+    // React to events raised by level scripting
+    this.hud = new Hud(container);
+    this.intermission = new Intermission(container);
+    this.editor = new LevelEditor(container);
+    this.levelEvents = new LevelEvents();
+    this.levelEvents.on("message", (event) =>
+      this.hud.showMessage(event.text, event.duration)
+    );
+    this.levelEvents.on("endLevel", (event) =>
+      this.completeLevel(event.nextLevel).catch((error) => console.error(error))
+    );
+    this.levelEvents.on("pickup", () => this.levelStats.items++);
+    this.levelEvents.on("secret", () => {
+      this.levelStats.secrets++;
+      this.hud.showMessage("A secret is revealed!", SECRET_MESSAGE_DURATION);
+    });
 
     // Create the player with the camera from the renderer
-    this.player = new Player(this.renderer.getCamera(), spawnPoint);
+    this.player = new Player(this.renderer.getCamera());
 
     // Add the player's camera holder to the scene
     this.renderer.addObject(this.player.getCameraHolder());
 
+    // Load the first level, then start the game loop
+    this.loadLevel(initialLevelId)
+      .then(() => this.startGameLoop())
+      .catch((error) => console.error(error));
+
+    document.addEventListener("mousedown", (event) => {
+      if (
+        event.button === 0 &&
+        this.level &&
+        this.enemyManager &&
+        !this.isLevelComplete &&
+        !this.isEditing
+      ) {
+        // Left mouse button
+        this.player.shoot(
+          this.enemyManager.getEnemies(),
+          this.level.collisionSystem
+        );
+      }
+    });
+  }
+
+  public getLevelLoader(): LevelLoader {
+    return this.levelLoader;
+  }
+
+  public getCurrentLevelId(): string | null {
+    return this.currentLevelId;
+  }
+
+  // Which secrets have been found, e.g. for hiding secret rooms on a map
+  public getSecretManager(): SecretManager | null {
+    return this.secretManager;
+  }
+
+  /**
+   * Set the levels played in order as each one is finished
+   */
+  public setEpisode(episode: IEpisode): void {
+    this.episode = episode;
+  }
+
+  /**
+   * Replace the current level with the level registered under the given id
+   */
+  public async loadLevel(id: string): Promise<void> {
+    const levelData = await this.levelLoader.load(id);
+
+    // Tear down the current level before building the new one
+    this.unloadLevel();
+
+    this.level = new Level(levelData);
+
+    // Add level objects to renderer
+    this.level.objects.forEach((object) => {
+      this.renderer.addObject(object);
+    });
+
     this.enemyManager = new EnemyManager(
       this.renderer.getScene(),
       this.level.collisionSystem
@@ -35,20 +164,222 @@ export class Game {
     // Spawn enemies from level data
     this.enemyManager.spawnEnemiesFromPoints(this.level.enemySpawnPoints);
 
-    // Add level objects to renderer
-    this.level.objects.forEach((object) => {
-      this.renderer.addObject(object);
-    });
+    this.pickupManager = new PickupManager(
+      this.renderer.getScene(),
+      this.levelEvents,
+      this.gameMode
+    );
+    this.pickupManager.spawnPickupsFromPoints(this.level.pickupSpawnPoints);
 
-    // Start game loop
-    this.gameLoop(0);
+    this.doorManager = new DoorManager(this.level.doors, this.levelEvents);
+    this.platformManager = new PlatformManager(this.level.platforms);
+    this.triggerManager = new TriggerManager(
+      this.level.triggers,
+      this.levelEvents,
+      this.doorManager,
+      this.platformManager,
+      this.enemyManager
+    );
+    this.secretManager = new SecretManager(
+      this.level.secrets,
+      this.levelEvents
+    );
 
-    document.addEventListener("mousedown", (event) => {
-      if (event.button === 0) {
-        // Left mouse button
-        this.player.shoot(this.enemyManager.getEnemies());
+    this.renderer.setBackground(this.level.getSkyBackground());
+    this.renderer.setFog(this.level.getFog());
+
+    this.player.setPosition(this.selectSpawnPoint(this.level));
+    this.player.clearKeys();
+    this.currentLevelId = id;
+
+    this.resetLevelStats(this.level);
+  }
+
+  /**
+   * Rebuild the level being played after its data changed. The player
+   * keeps their pose and keys unless the new geometry puts them inside
+   * something, in which case they go back to the spawn point.
+   */
+  private async reloadLevel(id: string): Promise<void> {
+    if (this.currentLevelId !== id || this.isLevelComplete || this.isEditing) {
+      return;
+    }
+
+    const pose = this.player.getPose();
+    const keys = this.player.getKeys();
+
+    try {
+      await this.loadLevel(id);
+    } catch (error) {
+      // The old level is still loaded, so play on until the map is fixed
+      console.error(error);
+      this.hud.showMessage("Level reload failed, see the console", 3000);
+      return;
+    }
+
+    keys.forEach((key) => this.player.addKey(key));
+
+    const level = this.level;
+    if (
+      level &&
+      !level.collisionSystem.checkCollision(
+        pose.position,
+        this.player.getCollisionRadius()
+      )
+    ) {
+      this.player.setPose(pose);
+    }
+
+    this.hud.showMessage("Level reloaded", 2000);
+  }
+
+  private unloadLevel(): void {
+    if (this.enemyManager) {
+      this.enemyManager.clearEnemies();
+      this.enemyManager = null;
+    }
+
+    if (this.pickupManager) {
+      this.pickupManager.clearPickups();
+      this.pickupManager = null;
+    }
+
+    this.doorManager = null;
+    this.platformManager = null;
+    this.triggerManager = null;
+    this.secretManager = null;
+
+    if (this.level) {
+      this.level.objects.forEach((object) => {
+        this.renderer.removeObject(object);
+      });
+      this.level.dispose();
+      this.level = null;
+    }
+
+    this.renderer.setBackground(null);
+    this.renderer.setFog(null);
+    this.hud.clearMessage();
+
+    this.currentLevelId = null;
+  }
+
+  /**
+   * Stop play, show the intermission, then load the next level. Without an
+   * explicit next level, the one after this in the episode is used; after
+   * the last level the episode starts again.
+   */
+  private async completeLevel(nextLevelId: string | null): Promise<void> {
+    if (this.isLevelComplete || !this.level || !this.enemyManager) return;
+
+    // Stopping the loop freezes the level behind the summary
+    this.isLevelComplete = true;
+
+    // Anything still alive counts against the kill total
+    this.levelStats.totalKills =
+      this.levelStats.kills + this.enemyManager.getEnemies().length;
+
+    const levelName = this.level.getName();
+    const nextId = nextLevelId ?? this.getNextEpisodeLevel();
+
+    try {
+      const nextLevel = nextId ? await this.levelLoader.load(nextId) : null;
+
+      await this.intermission.show(
+        levelName,
+        this.levelStats,
+        nextLevel ? nextLevel.name : null
+      );
+
+      await this.loadLevel(nextId ?? this.episode.levels[0]);
+    } catch (error) {
+      // A missing or broken next level leaves the current one loaded, so
+      // play on in it rather than staying frozen
+      console.error(error);
+      this.hud.showMessage(
+        "Couldn't load the next level, see the console",
+        LOAD_FAILED_MESSAGE_DURATION
+      );
+    } finally {
+      this.isLevelComplete = false;
+      this.startGameLoop();
+    }
+  }
+
+  /**
+   * Pause play and open the current level in the editor. Playing the
+   * edited level registers it in place of the original and reloads it.
+   */
+  public async openEditor(): Promise<void> {
+    if (this.isEditing || !this.currentLevelId) return;
+
+    // Stopping the loop freezes the level behind the editor
+    this.isEditing = true;
+    document.exitPointerLock();
+
+    const levelId = this.currentLevelId;
+    try {
+      const levelData = await this.levelLoader.load(levelId);
+      const editedLevel = await this.editor.open(levelData);
+
+      if (editedLevel) {
+        // Keep the original registered rather than one that won't load
+        const errors = validateLevel(editedLevel);
+        if (errors.length > 0) {
+          console.error(
+            `Edited level is not valid:\n${formatValidationErrors(errors)}`
+          );
+          this.hud.showMessage(
+            "The edited level isn't valid, see the console",
+            LOAD_FAILED_MESSAGE_DURATION
+          );
+          return;
+        }
+
+        this.levelLoader.register(levelId, editedLevel);
+        await this.loadLevel(levelId);
       }
-    });
+    } finally {
+      // Whatever went wrong, get back to playing so F2 works again
+      this.isEditing = false;
+      this.startGameLoop();
+    }
+  }
+
+  // Where the local player, always player 1, starts or respawns
+  private selectSpawnPoint(level: Level): ISpawnPoint {
+    const occupants = (this.enemyManager?.getEnemies() ?? []).map((enemy) => ({
+      position: enemy.mesh.position,
+      radius: enemy.collisionRadius,
+    }));
+
+    return level.spawnSelector.select(
+      this.gameMode,
+      1,
+      this.player.getCollisionRadius(),
+      occupants
+    );
+  }
+
+  private resetLevelStats(level: Level): void {
+    this.levelStats = new LevelStats();
+    this.levelStats.totalItems = level.pickupSpawnPoints.length;
+    this.levelStats.totalSecrets = level.secrets.length;
+  }
+
+  private getNextEpisodeLevel(): string | null {
+    const index = this.currentLevelId
+      ? this.episode.levels.indexOf(this.currentLevelId)
+      : -1;
+    return this.episode.levels[index + 1] ?? null;
+  }
+
+  private startGameLoop(): void {
+    if (this.isLoopRunning) return;
+
+    this.isLoopRunning = true;
+    this.lastFrameTime = performance.now();
+    requestAnimationFrame(this.gameLoop.bind(this));
   }
 
   private gameLoop(timestamp: number): void {
@@ -63,11 +394,29 @@ export class Game {
     this.renderer.render();
 
     // Request next frame
-    if (!this.gameOver) {
+    if (!this.gameOver && !this.isLevelComplete && !this.isEditing) {
       requestAnimationFrame(this.gameLoop.bind(this));
+    } else {
+      this.isLoopRunning = false;
     }
   }
   private update(deltaTime: number): void {
+    if (
+      !this.level ||
+      !this.enemyManager ||
+      !this.doorManager ||
+      !this.platformManager ||
+      !this.triggerManager ||
+      !this.pickupManager ||
+      !this.secretManager
+    ) {
+      return;
+    }
+
+    if (this.isLevelComplete) return;
+
+    this.levelStats.elapsedTime += deltaTime;
+
     // Check if player is dead
     if (this.player.isPlayerDead()) {
       this.gameOver = true;
@@ -76,6 +425,10 @@ export class Game {
       return;
     }
 
+    // Move platforms first so anything riding them follows this frame
+    this.platformManager.update(deltaTime);
+    this.level.collisionSystem.updateDynamicCollidables();
+
     // Update player based on input, passing collision system
     this.player.update(
       this.inputManager,
@@ -83,33 +436,85 @@ export class Game {
       deltaTime
     );
 
+    this.triggerManager.update(this.player);
+    this.pickupManager.update(deltaTime, this.player);
+    this.secretManager.update(this.player);
+
+    // Use key is edge-triggered so holding it doesn't retrigger doors.
+    // Scripted switches take priority over whatever is in front.
+    const usePressed = this.inputManager.isKeyPressed(Key.E);
+    if (usePressed && !this.wasUsePressed) {
+      if (
+        !this.triggerManager.tryUse(this.player) &&
+        !this.doorManager.tryUse(this.player, this.level.collisionSystem)
+      ) {
+        this.platformManager.tryUse(this.player, this.level.collisionSystem);
+      }
+    }
+    this.wasUsePressed = usePressed;
+
+    const editorPressed = this.inputManager.isKeyPressed(Key.F2);
+    if (editorPressed && !this.wasEditorPressed) {
+      this.openEditor().catch((error) => console.error(error));
+    }
+    this.wasEditorPressed = editorPressed;
+
+    this.doorManager.update(
+      deltaTime,
+      this.player,
+      this.enemyManager.getEnemies()
+    );
+    this.level.collisionSystem.updateDynamicCollidables();
+
+    this.level.updateSky(this.player.getPosition());
+    this.level.updateTextures(deltaTime);
+    this.level.updateLights(deltaTime);
+    this.hud.update(deltaTime);
+    this.hud.updateStatus(
+      this.player.getHealth(),
+      this.player.getArmor(),
+      this.player.getCurrentAmmo(),
+      this.player.getKeys()
+    );
+    const batchStats = this.level.getBatchStats();
+    this.hud.updateRenderStats(
+      this.renderer.getDrawCalls(),
+      batchStats.surfaces,
+      batchStats.batches
+    );
+
     // Update enemies
     this.enemyManager.update(deltaTime, this.player);
-    this.enemyManager.removeDeadEnemies();
+    this.levelStats.kills += this.enemyManager.removeDeadEnemies();
   }
 
-  public restart(): void {
-    // Reset player
-    const spawnPoint = this.level.getSpawnPoint();
+  /**
+   * Start the current level over with a fresh player. Rebuilding it from
+   * its data puts enemies, pickups, doors, platforms, triggers and secrets
+   * back the way the map starts them.
+   */
+  public async restart(): Promise<void> {
+    if (!this.currentLevelId) return;
+
+    await this.loadLevel(this.currentLevelId);
+    if (!this.level) return;
 
     // Remove old camera holder from scene
     this.renderer.removeObject(this.player.getCameraHolder());
 
     // Create new player
-    this.player = new Player(this.renderer.getCamera(), spawnPoint);
+    this.player = new Player(
+      this.renderer.getCamera(),
+      this.selectSpawnPoint(this.level)
+    );
 
     // Add new camera holder to scene
     this.renderer.addObject(this.player.getCameraHolder());
 
-    // Reset enemies
-    this.enemyManager.clearEnemies();
-    this.enemyManager.spawnEnemiesFromPoints(this.level.enemySpawnPoints);
-
     // Reset game state
     this.gameOver = false;
 
     // Restart game loop
-    this.lastFrameTime = performance.now();
-    requestAnimationFrame(this.gameLoop.bind(this));
+    this.startGameLoop();
   }
 }
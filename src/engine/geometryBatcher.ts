@@ -0,0 +1,98 @@
+import * as THREE from "three";
+
+// Attributes every level surface geometry carries, with their item sizes
+const BATCHED_ATTRIBUTES: [string, number][] = [
+  ["position", 3],
+  ["normal", 3],
+  ["uv", 2],
+];
+
+/**
+ * Merges static surfaces that share a material into a single mesh, so the
+ * level costs one draw call per material instead of one per surface. The
+ * source meshes never enter the scene but stay valid for collision, which
+ * still tests each surface on its own.
+ */
+export class GeometryBatcher {
+  private batches: Map<THREE.Material, THREE.Mesh[]> = new Map();
+  private surfaceCount: number = 0;
+
+  public add(mesh: THREE.Mesh): void {
+    const material = mesh.material as THREE.Material;
+    const batch = this.batches.get(material);
+    if (batch) {
+      batch.push(mesh);
+    } else {
+      this.batches.set(material, [mesh]);
+    }
+    this.surfaceCount++;
+  }
+
+  // How many draw calls the surfaces would take without batching
+  public getSurfaceCount(): number {
+    return this.surfaceCount;
+  }
+
+  public build(): THREE.Mesh[] {
+    const meshes: THREE.Mesh[] = [];
+    this.batches.forEach((batch, material) => {
+      meshes.push(new THREE.Mesh(mergeMeshGeometries(batch), material));
+    });
+    this.batches.clear();
+    return meshes;
+  }
+}
+
+// Bake each mesh's transform into a copy of its geometry and concatenate them
+function mergeMeshGeometries(meshes: THREE.Mesh[]): THREE.BufferGeometry {
+  const geometries = meshes.map((mesh) => {
+    mesh.updateMatrixWorld(true);
+    return mesh.geometry.clone().applyMatrix4(mesh.matrixWorld);
+  });
+
+  const vertexCount = geometries.reduce(
+    (count, geometry) => count + geometry.getAttribute("position").count,
+    0
+  );
+  const indexCount = geometries.reduce(
+    (count, geometry) =>
+      count +
+      (geometry.index?.count ?? geometry.getAttribute("position").count),
+    0
+  );
+
+  const merged = new THREE.BufferGeometry();
+
+  BATCHED_ATTRIBUTES.forEach(([name, itemSize]) => {
+    const array = new Float32Array(vertexCount * itemSize);
+    let offset = 0;
+    geometries.forEach((geometry) => {
+      const attribute = geometry.getAttribute(name) as THREE.BufferAttribute;
+      array.set(attribute.array as ArrayLike<number>, offset);
+      offset += attribute.count * itemSize;
+    });
+    merged.setAttribute(name, new THREE.BufferAttribute(array, itemSize));
+  });
+
+  const index = new Uint32Array(indexCount);
+  let indexOffset = 0;
+  let vertexOffset = 0;
+  geometries.forEach((geometry) => {
+    const vertices = geometry.getAttribute("position").count;
+    if (geometry.index) {
+      for (let i = 0; i < geometry.index.count; i++) {
+        index[indexOffset++] = geometry.index.getX(i) + vertexOffset;
+      }
+    } else {
+      for (let i = 0; i < vertices; i++) {
+        index[indexOffset++] = i + vertexOffset;
+      }
+    }
+    vertexOffset += vertices;
+    geometry.dispose();
+  });
+  merged.setIndex(new THREE.BufferAttribute(index, 1));
+
+  merged.computeBoundingSphere();
+  return merged;
+}
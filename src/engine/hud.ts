@@ -0,0 +1,75 @@
+import { KeyColor } from "../types/level";
+
+// On-screen text overlays drawn with plain DOM elements (styled in index.html)
+export class Hud {
+  private messageElement: HTMLDivElement;
+  private messageTimer: number = 0; // ms left before the message hides
+  private statusElement: HTMLDivElement;
+  private renderStatsElement: HTMLDivElement;
+
+  constructor(container: HTMLElement) {
+    this.statusElement = document.createElement("div");
+    this.statusElement.className = "status";
+    container.appendChild(this.statusElement);
+
+    this.renderStatsElement = document.createElement("div");
+    this.renderStatsElement.className = "render-stats";
+    container.appendChild(this.renderStatsElement);
+
+    this.messageElement = document.createElement("div");
+    this.messageElement.className = "message";
+    this.messageElement.style.display = "none";
+    container.appendChild(this.messageElement);
+  }
+
+  public showMessage(text: string, duration: number): void {
+    this.messageElement.textContent = text;
+    this.messageElement.style.display = "block";
+    this.messageTimer = duration;
+  }
+
+  public clearMessage(): void {
+    this.messageElement.style.display = "none";
+    this.messageTimer = 0;
+  }
+
+  public updateStatus(
+    health: number,
+    armor: number,
+    ammo: number,
+    keys: KeyColor[]
+  ): void {
+    let status = `Health ${Math.ceil(health)}%  Armor ${Math.floor(
+      armor
+    )}%  Ammo ${ammo}`;
+    if (keys.length > 0) {
+      status += `  Keys ${keys.join(" ")}`;
+    }
+
+    // Avoid touching the DOM every frame when nothing changed
+    if (this.statusElement.textContent !== status) {
+      this.statusElement.textContent = status;
+    }
+  }
+
+  // Draw calls last frame, and how far batching cut the static surfaces down
+  public updateRenderStats(
+    drawCalls: number,
+    staticSurfaces: number,
+    staticBatches: number
+  ): void {
+    const stats = `Draw calls ${drawCalls}  Static surfaces ${staticSurfaces} -> ${staticBatches} batches`;
+    if (this.renderStatsElement.textContent !== stats) {
+      this.renderStatsElement.textContent = stats;
+    }
+  }
+
+  public update(deltaTime: number): void {
+    if (this.messageTimer <= 0) return;
+
+    this.messageTimer -= deltaTime;
+    if (this.messageTimer <= 0) {
+      this.clearMessage();
+    }
+  }
+}
@@ -3,6 +3,8 @@ export enum Key {
   A = "KeyA",
   S = "KeyS",
   D = "KeyD",
+  E = "KeyE", // Use
+  F2 = "F2", // Level editor
   SPACE = "Space",
   SHIFT = "ShiftLeft",
 }
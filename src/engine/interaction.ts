@@ -0,0 +1,66 @@
+import * as THREE from "three";
+import { Collidable, CollisionSystem } from "./collision";
+
+// Distance from the player to an object's surface for the use key to reach it
+export const USE_RANGE = 3;
+
+// Minimum dot product between the player's facing and the object
+export const USE_ANGLE = 0.5;
+
+// Sight lines stop this short of the object, so whatever it's set into
+// doesn't count as being in the way
+const USE_SIGHT_CLEARANCE = 0.01;
+
+/**
+ * Find the closest item the viewer is facing within use range. Given a
+ * collision system, items behind walls or other collidables are skipped.
+ */
+export function findUsableInFront<T>(
+  items: T[],
+  getCollidable: (item: T) => Collidable,
+  position: THREE.Vector3,
+  direction: THREE.Vector3,
+  range: number = USE_RANGE,
+  collisionSystem?: CollisionSystem
+): T | null {
+  let closestItem: T | null = null;
+  let closestDistance = range;
+
+  // Only the horizontal facing matters, so looking down at a door still works
+  const facing = new THREE.Vector3(direction.x, 0, direction.z).normalize();
+
+  items.forEach((item) => {
+    const collidable = getCollidable(item);
+    const closestPoint = collidable
+      .getOrientedBoundingBox()
+      .closestPointToPoint(position);
+    const toItem = closestPoint.sub(position);
+    const distance = toItem.length();
+
+    if (distance > closestDistance) return;
+
+    const sightLine = toItem.clone();
+    toItem.y = 0;
+    if (toItem.lengthSq() > 0 && toItem.normalize().dot(facing) < USE_ANGLE) {
+      return;
+    }
+
+    if (
+      collisionSystem &&
+      distance > USE_SIGHT_CLEARANCE &&
+      collisionSystem.raycast(
+        position,
+        sightLine,
+        distance - USE_SIGHT_CLEARANCE,
+        (other) => other !== collidable
+      )
+    ) {
+      return;
+    }
+
+    closestItem = item;
+    closestDistance = distance;
+  });
+
+  return closestItem;
+}
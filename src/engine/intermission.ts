@@ -0,0 +1,69 @@
+import { LevelStats } from "./levelStats";
+
+// Ignore keys for a moment so a held use/move key doesn't skip the screen
+const INPUT_DELAY = 1000; // ms
+
+/**
+ * The between-levels summary screen (styled in index.html)
+ */
+export class Intermission {
+  private element: HTMLDivElement;
+
+  constructor(container: HTMLElement) {
+    this.element = document.createElement("div");
+    this.element.className = "intermission hidden";
+    container.appendChild(this.element);
+  }
+
+  /**
+   * Show the summary for a finished level. Resolves when the player
+   * presses a key or clicks to continue.
+   */
+  public show(
+    levelName: string,
+    stats: LevelStats,
+    nextLevelName: string | null
+  ): Promise<void> {
+    this.element.replaceChildren(
+      this.createLine("h2", `${levelName} finished`),
+      this.createLine("p", `Kills ${stats.getKillPercentage()}%`),
+      this.createLine("p", `Items ${stats.getItemPercentage()}%`),
+      this.createLine("p", `Secrets ${stats.getSecretPercentage()}%`),
+      this.createLine("p", `Time ${LevelStats.formatTime(stats.elapsedTime)}`),
+      this.createLine(
+        "p",
+        nextLevelName !== null
+          ? `Entering ${nextLevelName}`
+          : "Episode complete!"
+      ),
+      this.createLine("p", "Press any key to continue")
+    );
+    this.element.classList.remove("hidden");
+
+    return new Promise((resolve) => {
+      const shownAt = performance.now();
+
+      const onInput = () => {
+        if (performance.now() - shownAt < INPUT_DELAY) return;
+
+        document.removeEventListener("keydown", onInput);
+        document.removeEventListener("mousedown", onInput);
+        this.hide();
+        resolve();
+      };
+
+      document.addEventListener("keydown", onInput);
+      document.addEventListener("mousedown", onInput);
+    });
+  }
+
+  public hide(): void {
+    this.element.classList.add("hidden");
+  }
+
+  private createLine(tag: "h2" | "p", text: string): HTMLElement {
+    const line = document.createElement(tag);
+    line.textContent = text;
+    return line;
+  }
+}
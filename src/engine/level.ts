@@ -1,12 +1,50 @@
 import * as THREE from "three";
-import { CollisionSystem, Wall } from "./collision";
-
-import { ILevel, IRoom, ITexture, IStep } from "../types/level";
-import level1 from "../maps/map.json";
-import { EnemySpawnPoint } from "./enemyManager";
-import { EnemyType } from "./enemy";
-
-export class Level {
+import { CollisionSystem, SectorSurface, SurfaceType, Wall } from "./collision";
+
+import {
+  ILevel,
+  IRoom,
+  ITexture,
+  IEnemyLocations,
+  ISector,
+  ICeiling,
+  ISky,
+  IFog,
+  IDoor,
+  IPlatform,
+  ISurfaceTextureMapping,
+  ILighting,
+  IEntity,
+} from "../types/level";
+import { EnemySpawnPoint, createEnemySpawnPoint } from "./enemyManager";
+import { Door } from "./door";
+import { Platform } from "./platform";
+import { Trigger } from "./trigger";
+import { PickupSpawnPoint } from "./pickupManager";
+import {
+  applyBoxUVs,
+  applyPlaneUVs,
+  applyTextureMapping,
+  applyWorldFlatUVs,
+  setTextureDensity,
+} from "./textureMapping";
+import { TextureAnimator } from "./textureAnimator";
+import { RoomLight } from "./roomLight";
+import { GeometryBatcher } from "./geometryBatcher";
+import { WALL_Y_OFFSET } from "./wallGeometry";
+import { EntityRegistry, LevelBuilder } from "./entityRegistry";
+import { entityRegistry } from "./entities";
+import { SpawnSelector } from "./spawnSelector";
+import { applyDistanceFog } from "./distanceFog";
+import { createRoomFloorPlan, Secret } from "./secret";
+
+// Cylinder skies sit just inside the camera's far plane and repeat their
+// texture around the horizon, as Doom's sky strips do
+const SKY_RADIUS = 80;
+const SKY_HEIGHT = 80;
+const SKY_REPEAT = 4;
+
+export class Level implements LevelBuilder {
   public objects: THREE.Object3D[] = [];
   public collisionSystem: CollisionSystem;
   private textureLoader: THREE.TextureLoader;
@@ -14,10 +52,29 @@ export class Level {
   private floorTextures: Map<string, THREE.Texture>;
   private stepTextures: Map<string, THREE.Texture>; // New texture map for steps
   private levelMap: ILevel;
-  private spawnPoint;
+  private entityRegistry: EntityRegistry;
+  private skyMesh: THREE.Mesh | null = null;
+  private skyTexture: THREE.Texture | null = null;
+  private textureAnimator: TextureAnimator = new TextureAnimator();
+  private roomLights: RoomLight[] = [];
+  private currentLight: RoomLight | null = null; // Light for surfaces being built
+  // One material per light, texture and side, so surfaces can be batched
+  private litMaterials: Map<
+    RoomLight | null,
+    Map<string, THREE.MeshBasicMaterial>
+  > = new Map();
+  private staticBatcher: GeometryBatcher = new GeometryBatcher();
+  private staticSurfaceCount: number = 0;
+  private staticBatchCount: number = 0;
+  public spawnSelector: SpawnSelector;
   public enemySpawnPoints: EnemySpawnPoint[] = [];
+  public pickupSpawnPoints: PickupSpawnPoint[] = [];
+  public doors: Door[] = [];
+  public platforms: Platform[] = [];
+  public triggers: Trigger[] = [];
+  public secrets: Secret[] = [];
 
-  constructor() {
+  constructor(levelMap: ILevel, registry: EntityRegistry = entityRegistry) {
     // Pass the scene to the collision system for debug visualization
     this.collisionSystem =
       new CollisionSystem(/* Uncomment for debug mode: this.scene */);
@@ -25,111 +82,244 @@ export class Level {
     this.wallTextures = new Map();
     this.floorTextures = new Map();
     this.stepTextures = new Map(); // Initialize the step textures map
-    this.levelMap = level1;
+    this.levelMap = levelMap;
+    this.entityRegistry = registry;
 
-    this.spawnPoint = this.levelMap.spawnPoint;
+    this.spawnSelector = new SpawnSelector(this.levelMap.spawnPoints ?? []);
 
     this.loadTextures(this.levelMap.textures);
     this.createLevel(this.levelMap.rooms);
+    if (this.levelMap.sky) {
+      this.createSky(this.levelMap.sky);
+    }
     this.createEnemySpawnPoints(this.levelMap.enemies || []);
+    this.createEntities(this.levelMap.entities || []);
   }
 
-  private createEnemySpawnPoints(enemyData: any[]): void {
+  private createEnemySpawnPoints(enemyData: IEnemyLocations[]): void {
     if (!enemyData || !Array.isArray(enemyData)) return;
 
     enemyData.forEach((enemy) => {
-      const position = new THREE.Vector3(enemy.x, enemy.y, enemy.z);
+      const spawnPoint = createEnemySpawnPoint(enemy);
+      if (spawnPoint) {
+        this.enemySpawnPoints.push(spawnPoint);
+      } else {
+        console.error(`Unknown enemy type "${enemy.type}"`);
+      }
+    });
+  }
 
-      // Convert string type to enum
-      let enemyType = EnemyType.IMP;
-      switch (enemy.type?.toLowerCase()) {
-        case "zombie":
-          enemyType = EnemyType.ZOMBIE;
-          break;
-        case "demon":
-          enemyType = EnemyType.DEMON;
-          break;
-        default:
-          enemyType = EnemyType.IMP;
+  // Build each entity from its registered type; unknown types are skipped
+  // (the level validator rejects them before a level gets this far)
+  private createEntities(entities: IEntity[]): void {
+    entities.forEach((entity) => {
+      const definition = this.entityRegistry.get(entity.type);
+      if (!definition) {
+        console.error(`Unknown entity type "${entity.type}"`);
+        return;
       }
 
-      this.enemySpawnPoints.push({
-        position,
-        type: enemyType,
-      });
+      definition.spawn(
+        this,
+        new THREE.Vector3(
+          entity.position.x,
+          entity.position.y,
+          entity.position.z
+        ),
+        entity.properties ?? {}
+      );
     });
   }
 
+  public addTrigger(trigger: Trigger): void {
+    this.triggers.push(trigger);
+  }
+
+  public addPickupSpawnPoint(spawnPoint: PickupSpawnPoint): void {
+    this.pickupSpawnPoints.push(spawnPoint);
+  }
+
+  public addEnemySpawnPoint(spawnPoint: EnemySpawnPoint): void {
+    this.enemySpawnPoints.push(spawnPoint);
+  }
+
+  public addObject(object: THREE.Object3D): void {
+    this.objects.push(object);
+  }
+
+  public addSecret(secret: Secret): void {
+    this.secrets.push(secret);
+  }
+
   // Update loadTextures method to handle step textures
   private loadTextures(textures: ITexture[]): void {
     textures.forEach((texture: ITexture) => {
-      const textureObject = this.textureLoader.load(texture.path);
-
-      // Fix #1: Remove automatic texture repeating which can cause glitches
-      // Set explicit repeating settings
-      textureObject.wrapS = THREE.ClampToEdgeWrapping;
-      textureObject.wrapT = THREE.ClampToEdgeWrapping;
+      // Surfaces get UVs in world units; once the image size is known the
+      // repeat turns them into a fixed texel density (see textureMapping)
+      const textureObject = this.textureLoader.load(
+        texture.path,
+        setTextureDensity
+      );
+
+      // LinearFilter for both prevents mipmap thrashing
+      textureObject.minFilter = THREE.LinearFilter;
+      textureObject.magFilter = THREE.LinearFilter;
+      textureObject.wrapS = textureObject.wrapT = THREE.RepeatWrapping;
+
+      if (texture.frames && texture.frames.length > 0) {
+        this.textureAnimator.addFrames(
+          textureObject,
+          texture.frames,
+          texture.frameTime
+        );
+      }
+      if (texture.scroll) {
+        this.textureAnimator.addScroll(textureObject, texture.scroll);
+      }
 
       switch (texture.type) {
         case "wall":
-          // Fix #2: CRUCIAL - Use different filtering for textures
-          // LinearFilter for both prevents mipmap thrashing
-          textureObject.minFilter = THREE.LinearFilter;
-          textureObject.magFilter = THREE.LinearFilter;
-
-          // Fix #3: Only set repeating if absolutely necessary and use integer values
-
-          textureObject.wrapS = textureObject.wrapT = THREE.RepeatWrapping;
-          textureObject.repeat.set(10, 1); // Try with 1 first, then adjust if needed
-
           this.wallTextures.set(texture.name, textureObject);
           break;
 
         case "floor":
-          // Same improvements for floor textures
-          textureObject.minFilter = THREE.LinearFilter;
-          textureObject.magFilter = THREE.LinearFilter;
-
-          textureObject.wrapS = textureObject.wrapT = THREE.RepeatWrapping;
-          textureObject.repeat.set(25, 25);
-
           this.floorTextures.set(texture.name, textureObject);
           break;
 
         case "step":
-          // Configure step textures similarly to floor textures
-          textureObject.minFilter = THREE.LinearFilter;
-          textureObject.magFilter = THREE.LinearFilter;
-
-          textureObject.wrapS = textureObject.wrapT = THREE.RepeatWrapping;
-          textureObject.repeat.set(5, 1); // Smaller repeat for steps
-
-          this.stepTextures.set(texture.name, textureObject);
-          break;
-
         case "block":
-          // Configure step textures similarly to floor textures
-          textureObject.minFilter = THREE.LinearFilter;
-          textureObject.magFilter = THREE.LinearFilter;
-
-          textureObject.wrapS = textureObject.wrapT = THREE.RepeatWrapping;
-          textureObject.repeat.set(5, 1); // Smaller repeat for steps
-
           this.stepTextures.set(texture.name, textureObject);
           break;
 
         default:
-          console.error("Unknown texture type");
+          console.error(
+            `Unknown texture type "${texture.type}" for texture "${texture.name}"`
+          );
       }
     });
   }
 
-  public getSpawnPoint() {
-    return this.spawnPoint; // Default to first spawn point
+  public getName(): string {
+    return this.levelMap.name;
+  }
+
+  // Cube skies are drawn as the scene background rather than a mesh
+  public getSkyBackground(): THREE.Texture | null {
+    return this.skyMesh ? null : this.skyTexture;
+  }
+
+  public getFog(): IFog | null {
+    return this.levelMap.fog ?? null;
+  }
+
+  // Static surfaces as built, against the batched meshes that draw them
+  public getBatchStats(): { surfaces: number; batches: number } {
+    return {
+      surfaces: this.staticSurfaceCount,
+      batches: this.staticBatchCount,
+    };
+  }
+
+  // Keep the sky cylinder centred on the viewer so it never gets closer
+  public updateSky(viewerPosition: THREE.Vector3): void {
+    if (this.skyMesh) {
+      this.skyMesh.position.copy(viewerPosition);
+    }
+  }
+
+  // Advance animated and scrolling textures
+  public updateTextures(deltaTime: number): void {
+    this.textureAnimator.update(deltaTime);
+  }
+
+  // Run flickering, strobing and glowing lights
+  public updateLights(deltaTime: number): void {
+    this.roomLights.forEach((light) => light.update(deltaTime));
+  }
+
+  private createSky(sky: ISky): void {
+    if (sky.type === "cube" && sky.paths) {
+      this.skyTexture = new THREE.CubeTextureLoader().load(sky.paths);
+      return;
+    }
+
+    if (sky.type !== "cylinder" || !sky.path) return;
+
+    const texture = this.textureLoader.load(sky.path);
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.repeat.set(SKY_REPEAT, 1);
+
+    const geometry = new THREE.CylinderGeometry(
+      SKY_RADIUS,
+      SKY_RADIUS,
+      SKY_HEIGHT,
+      32,
+      1,
+      true
+    );
+    const material = new THREE.MeshBasicMaterial({
+      map: texture,
+      side: THREE.BackSide,
+      depthWrite: false,
+      // The sky is infinitely far away, so fog would swallow it whole
+      fog: false,
+    });
+
+    this.skyMesh = new THREE.Mesh(geometry, material);
+    // Draw before everything else so level geometry always covers it
+    this.skyMesh.renderOrder = -1;
+    this.skyMesh.frustumCulled = false;
+    this.skyTexture = texture;
+
+    this.objects.push(this.skyMesh);
+  }
+
+  // Release GPU resources and collision data so the level can be replaced
+  public dispose(): void {
+    this.objects.forEach((object) => {
+      if (object instanceof THREE.Mesh) {
+        object.geometry.dispose();
+        const materials = Array.isArray(object.material)
+          ? object.material
+          : [object.material];
+        materials.forEach((material) => material.dispose());
+      }
+    });
+    this.objects = [];
+
+    [this.wallTextures, this.floorTextures, this.stepTextures].forEach(
+      (textures) => {
+        textures.forEach((texture) => texture.dispose());
+        textures.clear();
+      }
+    );
+
+    if (this.skyTexture) {
+      this.skyTexture.dispose();
+      this.skyTexture = null;
+    }
+    this.skyMesh = null;
+
+    this.textureAnimator.clear();
+    this.roomLights = [];
+    this.litMaterials.clear();
+    this.collisionSystem.clear();
+    this.enemySpawnPoints = [];
+    this.pickupSpawnPoints = [];
+    this.doors = [];
+    this.platforms = [];
+    this.triggers = [];
+    this.secrets = [];
   }
 
   private createLevel(rooms: IRoom[]): void {
-    rooms.forEach((room) => {
+    rooms.forEach((room, index) => {
+      this.currentLight = this.createLight(room);
+
+      if (room.secret) {
+        this.addSecret(new Secret(createRoomFloorPlan(room), index));
+      }
+
       room.walls.forEach((wall) => {
         this.createWall(
           wall.x,
@@ -140,7 +330,8 @@ export class Level {
           wall.depth,
           wall.rotation,
           wall.texture,
-          new THREE.Vector3(wall.normal.x, wall.normal.y, wall.normal.z)
+          new THREE.Vector3(wall.normal.x, wall.normal.y, wall.normal.z),
+          wall
         );
       });
 
@@ -152,7 +343,8 @@ export class Level {
           floor.rotation,
           floor.y,
           floor.z,
-          floor.x
+          floor.x,
+          floor
         );
       });
 
@@ -168,11 +360,28 @@ export class Level {
             step.height,
             step.rotation,
             step.texture,
-            new THREE.Vector3(step.normal.x, step.normal.y, step.normal.z)
+            new THREE.Vector3(step.normal.x, step.normal.y, step.normal.z),
+            step
           );
         });
       }
 
+      if (room.sectors) {
+        room.sectors.forEach((sector) => this.createSector(sector));
+      }
+
+      if (room.ceilings) {
+        room.ceilings.forEach((ceiling) => this.createCeiling(ceiling));
+      }
+
+      if (room.doors) {
+        room.doors.forEach((door) => this.createDoor(door));
+      }
+
+      if (room.platforms) {
+        room.platforms.forEach((platform) => this.createPlatform(platform));
+      }
+
       if (room.blocks) {
         room.blocks.forEach((block) => {
           this.createStep(
@@ -184,13 +393,22 @@ export class Level {
             block.height,
             block.rotation,
             block.texture,
-            new THREE.Vector3(0, 0, 0)
+            new THREE.Vector3(0, 0, 0),
+            block
           );
         });
       }
     });
 
-    // Add light
+    this.currentLight = null;
+
+    this.staticSurfaceCount = this.staticBatcher.getSurfaceCount();
+    const batches = this.staticBatcher.build();
+    this.staticBatchCount = batches.length;
+    this.objects.push(...batches);
+
+    // Lights for models such as enemies; level surfaces use unlit
+    // materials coloured by their room's light level instead
     const light = new THREE.AmbientLight(0xffffff, 0.5);
     this.objects.push(light);
 
@@ -199,6 +417,41 @@ export class Level {
     this.objects.push(directionalLight);
   }
 
+  private createLight(lighting: ILighting, defaultLevel?: number): RoomLight {
+    const light = new RoomLight(
+      lighting.lightLevel ?? defaultLevel,
+      lighting.lightSpecial ?? null,
+      lighting.lightMin
+    );
+    this.roomLights.push(light);
+    return light;
+  }
+
+  // Where a room can be walked: its floors (laid flat, so axis-aligned)
+  // and its sectors
+  // Surfaces ignore scene lights; the room's light level tints them instead.
+  // Surfaces with the same light, texture and side share one material.
+  private getLitMaterial(
+    map: THREE.Texture | undefined,
+    side: THREE.Side = THREE.FrontSide
+  ): THREE.MeshBasicMaterial {
+    let materials = this.litMaterials.get(this.currentLight);
+    if (!materials) {
+      materials = new Map();
+      this.litMaterials.set(this.currentLight, materials);
+    }
+
+    const key = `${map?.uuid ?? "untextured"}:${side}`;
+    let material = materials.get(key);
+    if (!material) {
+      material = new THREE.MeshBasicMaterial({ map, side });
+      applyDistanceFog(material);
+      this.currentLight?.addMaterial(material);
+      materials.set(key, material);
+    }
+    return material;
+  }
+
   private createFloor(
     width: number,
     length: number,
@@ -206,14 +459,12 @@ export class Level {
     rotation: number,
     y: number,
     z: number,
-    x: number
+    x: number,
+    mapping: ISurfaceTextureMapping = {}
   ): void {
     const floorGeometry = new THREE.PlaneGeometry(width, length);
 
-    const floorMaterial = new THREE.MeshStandardMaterial({
-      map: this.floorTextures.get(texture),
-      roughness: 0.8,
-    });
+    const floorMaterial = this.getLitMaterial(this.floorTextures.get(texture));
 
     const floor = new THREE.Mesh(floorGeometry, floorMaterial);
     floor.rotation.x = rotation;
@@ -221,7 +472,113 @@ export class Level {
     floor.position.y = y;
     floor.position.z = z;
 
-    this.objects.push(floor);
+    applyWorldFlatUVs(floor);
+    applyTextureMapping(floorGeometry, mapping);
+
+    this.staticBatcher.add(floor);
+  }
+
+  private createSector(sector: ISector): void {
+    // Sectors can be lit differently from the rest of their room
+    const roomLight = this.currentLight;
+    if (sector.lightLevel !== undefined || sector.lightSpecial !== undefined) {
+      this.currentLight = this.createLight(sector, roomLight?.level);
+    }
+
+    const polygon = sector.vertices.map(
+      (vertex) => new THREE.Vector2(vertex.x, vertex.z)
+    );
+
+    this.createFlat(
+      polygon,
+      sector.floorHeight,
+      sector.floorTexture,
+      SurfaceType.FLOOR
+    );
+    this.createFlat(
+      polygon,
+      sector.ceilingHeight,
+      sector.ceilingTexture,
+      SurfaceType.CEILING,
+      sector.ceilingSky
+    );
+
+    this.currentLight = roomLight;
+  }
+
+  private createCeiling(ceiling: ICeiling): void {
+    const halfWidth = ceiling.width / 2;
+    const halfLength = ceiling.length / 2;
+    const polygon = [
+      new THREE.Vector2(ceiling.x - halfWidth, ceiling.z - halfLength),
+      new THREE.Vector2(ceiling.x + halfWidth, ceiling.z - halfLength),
+      new THREE.Vector2(ceiling.x + halfWidth, ceiling.z + halfLength),
+      new THREE.Vector2(ceiling.x - halfWidth, ceiling.z + halfLength),
+    ];
+
+    this.createFlat(
+      polygon,
+      ceiling.y,
+      ceiling.texture,
+      SurfaceType.CEILING,
+      ceiling.sky
+    );
+  }
+
+  /**
+   * Build a horizontal polygon (floor or ceiling) and register its collision.
+   * Sky flats still collide but aren't drawn.
+   */
+  private createFlat(
+    polygon: THREE.Vector2[],
+    height: number,
+    textureKey: string | undefined,
+    type: SurfaceType,
+    isSky: boolean = false
+  ): void {
+    // Shape coordinates are (x, -z) so rotating the mesh flat maps them back to (x, z)
+    const shape = new THREE.Shape(
+      polygon.map((point) => new THREE.Vector2(point.x, -point.y))
+    );
+    const geometry = new THREE.ShapeGeometry(shape);
+
+    const mesh = this.createSectorMesh(geometry, textureKey, height);
+
+    // Sky flats are left out of the scene so the level's sky shows through
+    if (!isSky) {
+      this.staticBatcher.add(mesh);
+    }
+
+    this.collisionSystem.addSurface(
+      new SectorSurface(mesh, polygon, height, type)
+    );
+  }
+
+  private createSectorMesh(
+    geometry: THREE.BufferGeometry,
+    textureKey: string | undefined,
+    height: number
+  ): THREE.Mesh {
+    const material = this.getLitMaterial(
+      textureKey ? this.getTexture(textureKey) : undefined,
+      THREE.DoubleSide
+    );
+
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.rotation.x = -Math.PI / 2;
+    mesh.position.y = height;
+
+    return mesh;
+  }
+
+  // Shape UVs are already world (x, -z) coordinates, so sectors can share
+  // the textures of any type
+  private getTexture(textureKey: string): THREE.Texture | undefined {
+    return (
+      this.floorTextures.get(textureKey) ??
+      this.wallTextures.get(textureKey) ??
+      this.stepTextures.get(textureKey)
+    );
   }
 
   // New method to create steps
@@ -234,20 +591,20 @@ export class Level {
     height: number,
     rotation: number,
     textureKey: string,
-    normal: THREE.Vector3
+    normal: THREE.Vector3,
+    mapping: ISurfaceTextureMapping = {}
   ): void {
     // Create a box geometry for the step
     const stepGeometry = new THREE.BoxGeometry(width, height, depth);
+    applyBoxUVs(stepGeometry, width, height, depth);
+    applyTextureMapping(stepGeometry, mapping);
 
     // Get texture for this step or fallback to floor texture
     const texture =
       this.stepTextures.get(textureKey) || this.floorTextures.get("floor");
 
     // Create material for the step
-    const stepMaterial = new THREE.MeshStandardMaterial({
-      map: texture,
-      roughness: 0.8,
-    });
+    const stepMaterial = this.getLitMaterial(texture);
 
     // Create the step mesh
     const step = new THREE.Mesh(stepGeometry, stepMaterial);
@@ -257,8 +614,8 @@ export class Level {
     step.position.set(x, y + height / 2, z);
     step.rotation.y = rotation;
 
-    // Add the step to scene objects
-    this.objects.push(step);
+    // Steps never move, so they're drawn as part of a batch
+    this.staticBatcher.add(step);
 
     // Add the step to the collision system with its normal
     const collidableStep = new Wall(step);
@@ -267,6 +624,68 @@ export class Level {
     this.collisionSystem.addCollidable(collidableStep, normal);
   }
 
+  private createDoor(door: IDoor): void {
+    const geometry = new THREE.BoxGeometry(door.width, door.height, door.depth);
+    applyBoxUVs(geometry, door.width, door.height, door.depth);
+    const material = this.getLitMaterial(this.wallTextures.get(door.texture));
+
+    const mesh = new THREE.Mesh(geometry, material);
+    // Same vertical placement as walls
+    mesh.position.set(door.x, door.y + WALL_Y_OFFSET, door.z);
+    mesh.rotation.y = door.rotation;
+
+    this.objects.push(mesh);
+
+    const levelDoor = new Door(
+      mesh,
+      door.direction,
+      door.id ?? null,
+      door.speed,
+      door.waitTime,
+      door.key ?? null
+    );
+    this.doors.push(levelDoor);
+
+    // The door's collidable moves with its mesh
+    this.collisionSystem.addDynamicCollidable(levelDoor.collidable);
+  }
+
+  private createPlatform(platform: IPlatform): void {
+    const geometry = new THREE.BoxGeometry(
+      platform.width,
+      platform.height,
+      platform.depth
+    );
+    applyBoxUVs(geometry, platform.width, platform.height, platform.depth);
+    const material = this.getLitMaterial(
+      this.stepTextures.get(platform.texture)
+    );
+
+    const mesh = new THREE.Mesh(geometry, material);
+    // Positioned like steps: bottom at y, centred on x/z
+    const halfHeight = platform.height / 2;
+    mesh.position.set(platform.x, platform.y + halfHeight, platform.z);
+    mesh.rotation.y = platform.rotation;
+
+    this.objects.push(mesh);
+
+    const stops = platform.waypoints.map(
+      (waypoint) =>
+        new THREE.Vector3(waypoint.x, waypoint.y + halfHeight, waypoint.z)
+    );
+    const levelPlatform = new Platform(
+      mesh,
+      stops,
+      platform.mode,
+      platform.id ?? null,
+      platform.speed,
+      platform.waitTime
+    );
+    this.platforms.push(levelPlatform);
+
+    this.collisionSystem.addDynamicCollidable(levelPlatform);
+  }
+
   private createWall(
     x: number,
     y: number,
@@ -276,7 +695,8 @@ export class Level {
     depth: number,
     rotation: number,
     textureKey: string,
-    normal: THREE.Vector3
+    normal: THREE.Vector3,
+    mapping: ISurfaceTextureMapping = {}
   ): void {
     // Fix #4: Use PlaneGeometry instead of BoxGeometry for walls when possible
     // This prevents texture coordinate issues on the sides
@@ -286,26 +706,26 @@ export class Level {
     if (depth < 0.1) {
       // For very thin walls, use PlaneGeometry instead
       wallGeometry = new THREE.PlaneGeometry(width, height);
+      applyPlaneUVs(wallGeometry, width, height);
       isThinWall = true;
     } else {
       wallGeometry = new THREE.BoxGeometry(width, height, depth);
+      applyBoxUVs(wallGeometry, width, height, depth);
     }
+    applyTextureMapping(wallGeometry, mapping);
 
     // Get texture for this wall
     const texture = this.wallTextures.get(textureKey);
 
     // Fix #5: Use MeshBasicMaterial instead of MeshStandardMaterial for simpler rendering
     // This eliminates potential lighting-related glitches
-    const wallMaterial = new THREE.MeshBasicMaterial({
-      map: texture,
-      side: THREE.DoubleSide,
-    });
+    const wallMaterial = this.getLitMaterial(texture, THREE.DoubleSide);
 
     const wall = new THREE.Mesh(wallGeometry, wallMaterial);
-    wall.position.set(x, y + 1.5, z);
+    wall.position.set(x, y + WALL_Y_OFFSET, z);
     wall.rotation.y = rotation;
 
-    this.objects.push(wall);
+    this.staticBatcher.add(wall);
 
     // Add the wall to the collision system with its normal
     const collidableWall = new Wall(wall);
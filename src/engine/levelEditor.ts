@@ -0,0 +1,864 @@
+import {
+  ENEMY_TYPE_NAMES,
+  ILevel,
+  ISectorVertex,
+  ISpawnPoint,
+  SPAWN_TAG_NAMES,
+  SpawnTag,
+  TextureType,
+} from "../types/level";
+import {
+  EditorItem,
+  EditorItemKind,
+  ITEM_TEXTURE_TYPES,
+  deleteItem,
+  describeItem,
+  flipItem,
+  getItemOutline,
+  getBoxCorners,
+  getItemTexture,
+  hitTestItem,
+  listItems,
+  moveItem,
+  rotateItem,
+  setItemTexture,
+} from "./editorItems";
+import { formatValidationErrors, validateLevel } from "./levelValidator";
+import { createWallFromSegment } from "./wallGeometry";
+
+const EDITOR_TOOLS = [
+  "select",
+  "wall",
+  "floor",
+  "step",
+  "block",
+  "enemy",
+  "spawn",
+] as const;
+
+type EditorTool = (typeof EDITOR_TOOLS)[number];
+
+type EditorDrag =
+  | { type: "pan"; lastX: number; lastY: number }
+  | { type: "move"; start: ISectorVertex; offset: ISectorVertex }
+  | { type: "draw"; start: ISectorVertex; end: ISectorVertex };
+
+const DEFAULT_ZOOM = 8; // Pixels per world unit
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 64;
+const MIN_GRID_SPACING = 4; // Pixels; denser grids aren't drawn
+const PICK_TOLERANCE = 6; // Pixels around lines that still count as a hit
+
+// Enemy placeholder meshes are 2 units tall and centred on their position
+const ENEMY_HALF_HEIGHT = 1;
+
+const ITEM_COLORS: Record<EditorItemKind, string> = {
+  wall: "#ffffff",
+  floor: "#50508c",
+  step: "#8c7850",
+  block: "#a0643c",
+  enemy: "#ff4040",
+  spawn: "#40ff40",
+};
+const SELECTED_COLOR = "#ffff00";
+const CONTEXT_COLOR = "#606060"; // Sectors, doors and the like
+const GRID_COLOR = "#202020";
+const AXIS_COLOR = "#404040";
+
+/**
+ * A top-down editor for the level's rooms, enemies and spawn points, drawn
+ * on a canvas over the game (styled in index.html). Edits a copy of the
+ * level and can export it as map JSON.
+ */
+export class LevelEditor {
+  private element: HTMLDivElement;
+  private canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D;
+  private statusElement: HTMLDivElement;
+  private nameInput: HTMLInputElement;
+  private textureSelect: HTMLSelectElement;
+  private enemySelect: HTMLSelectElement;
+  private spawnSelect: HTMLSelectElement;
+  private roomSelect: HTMLSelectElement;
+  private secretInput: HTMLInputElement;
+  private gridInput: HTMLInputElement;
+  private bottomInput: HTMLInputElement;
+  private heightInput: HTMLInputElement;
+  private toolButtons: Map<EditorTool, HTMLButtonElement> = new Map();
+
+  private level: ILevel | null = null;
+  private tool: EditorTool = "select";
+  private selected: EditorItem | null = null;
+  private drag: EditorDrag | null = null;
+  private cursor: ISectorVertex = { x: 0, z: 0 };
+  private view = { x: 0, z: 0, scale: DEFAULT_ZOOM }; // Centre of the canvas
+  private message: string = "";
+  private resolveClose: ((level: ILevel | null) => void) | null = null;
+
+  constructor(container: HTMLElement) {
+    this.element = document.createElement("div");
+    this.element.className = "editor hidden";
+
+    const toolbar = document.createElement("div");
+    toolbar.className = "editor-toolbar";
+
+    EDITOR_TOOLS.forEach((tool) => {
+      const button = this.createButton(tool, () => this.setTool(tool));
+      this.toolButtons.set(tool, button);
+      toolbar.appendChild(button);
+    });
+
+    this.nameInput = this.createInput("text", "");
+    this.nameInput.addEventListener("change", () => {
+      if (this.level) this.level.name = this.nameInput.value;
+    });
+    this.textureSelect = document.createElement("select");
+    this.textureSelect.addEventListener("change", () => this.onTextureChange());
+    this.enemySelect = document.createElement("select");
+    ENEMY_TYPE_NAMES.forEach((type) =>
+      this.enemySelect.appendChild(new Option(type, type))
+    );
+    this.spawnSelect = document.createElement("select");
+    SPAWN_TAG_NAMES.forEach((tag) =>
+      this.spawnSelect.appendChild(new Option(tag, tag))
+    );
+    this.roomSelect = document.createElement("select");
+    this.roomSelect.addEventListener("change", () => this.updateSecretInput());
+    this.secretInput = this.createInput("checkbox", "");
+    this.secretInput.addEventListener("change", () => this.onSecretChange());
+    this.gridInput = this.createInput("number", "1");
+    this.bottomInput = this.createInput("number", "0");
+    this.heightInput = this.createInput("number", "4");
+
+    toolbar.append(
+      this.createLabel("Name", this.nameInput),
+      this.createLabel("Texture", this.textureSelect),
+      this.createLabel("Enemy", this.enemySelect),
+      this.createLabel("Spawn", this.spawnSelect),
+      this.createLabel("Room", this.roomSelect),
+      this.createLabel("Secret", this.secretInput),
+      this.createButton("+ room", () => this.addRoom()),
+      this.createLabel("Grid", this.gridInput),
+      this.createLabel("Bottom", this.bottomInput),
+      this.createLabel("Height", this.heightInput),
+      this.createButton("Export", () => this.exportLevel()),
+      this.createButton("Play", () => this.play()),
+      this.createButton("Cancel", () => this.close(null))
+    );
+
+    this.canvas = document.createElement("canvas");
+    const context = this.canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Level editor needs a 2D canvas context");
+    }
+    this.context = context;
+
+    this.statusElement = document.createElement("div");
+    this.statusElement.className = "editor-status";
+
+    this.element.append(toolbar, this.canvas, this.statusElement);
+    container.appendChild(this.element);
+
+    // Keep clicks from reaching the game, which would grab the pointer
+    ["click", "mousedown"].forEach((type) =>
+      this.element.addEventListener(type, (event) => event.stopPropagation())
+    );
+
+    this.canvas.addEventListener("mousedown", this.onMouseDown.bind(this));
+    this.canvas.addEventListener("mousemove", this.onMouseMove.bind(this));
+    this.canvas.addEventListener("mouseup", this.onMouseUp.bind(this));
+    this.canvas.addEventListener("wheel", this.onWheel.bind(this), {
+      passive: false,
+    });
+    this.canvas.addEventListener("contextmenu", (event) =>
+      event.preventDefault()
+    );
+    this.onKeyDown = this.onKeyDown.bind(this);
+    window.addEventListener("resize", () => this.render());
+  }
+
+  public isOpen(): boolean {
+    return this.resolveClose !== null;
+  }
+
+  /**
+   * Edit a copy of the level. Resolves with the edited level when the
+   * player chooses to play it, or null if they cancel.
+   */
+  public open(level: ILevel): Promise<ILevel | null> {
+    this.level = JSON.parse(JSON.stringify(level)) as ILevel;
+    this.selected = null;
+    this.drag = null;
+    this.message =
+      "Drag with the right mouse button to pan, scroll to zoom. " +
+      "Del deletes, R rotates, F flips a wall.";
+    const [firstSpawn] = this.level.spawnPoints;
+    this.view = {
+      x: firstSpawn?.x ?? 0,
+      z: firstSpawn?.z ?? 0,
+      scale: DEFAULT_ZOOM,
+    };
+
+    this.nameInput.value = this.level.name;
+    this.updateRoomOptions(0);
+    this.setTool("select");
+
+    this.element.classList.remove("hidden");
+    document.addEventListener("keydown", this.onKeyDown);
+    this.render();
+
+    return new Promise((resolve) => {
+      this.resolveClose = resolve;
+    });
+  }
+
+  private close(result: ILevel | null): void {
+    document.removeEventListener("keydown", this.onKeyDown);
+    this.element.classList.add("hidden");
+
+    const resolve = this.resolveClose;
+    this.resolveClose = null;
+    this.level = null;
+    resolve?.(result);
+  }
+
+  // Only hand back levels the game would accept
+  private play(): void {
+    if (this.level && this.checkLevel()) {
+      this.close(this.level);
+    }
+  }
+
+  private exportLevel(): void {
+    if (!this.level || !this.checkLevel()) return;
+
+    const json = JSON.stringify(this.level, null, 2);
+    const url = URL.createObjectURL(
+      new Blob([json], { type: "application/json" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${this.level.name.replace(/[^\w-]+/g, "_") || "map"}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    this.setMessage(`Exported ${link.download}`);
+  }
+
+  private checkLevel(): boolean {
+    const errors = validateLevel(this.level);
+    if (errors.length > 0) {
+      this.setMessage(formatValidationErrors(errors));
+      return false;
+    }
+    return true;
+  }
+
+  private setTool(tool: EditorTool): void {
+    this.tool = tool;
+    this.toolButtons.forEach((button, buttonTool) =>
+      button.classList.toggle("active", buttonTool === tool)
+    );
+    if (tool !== "select") {
+      this.selected = null;
+    }
+    this.updateTextureOptions();
+    this.render();
+  }
+
+  private addRoom(): void {
+    if (!this.level) return;
+    this.level.rooms.push({ walls: [], floors: [] });
+    this.updateRoomOptions(this.level.rooms.length - 1);
+  }
+
+  private updateRoomOptions(selectedRoom: number): void {
+    if (!this.level) return;
+    this.roomSelect.replaceChildren(
+      ...this.level.rooms.map(
+        (_room, index) => new Option(`${index + 1}`, `${index}`)
+      )
+    );
+    this.roomSelect.value = `${selectedRoom}`;
+    this.updateSecretInput();
+  }
+
+  private updateSecretInput(): void {
+    const room = this.level?.rooms[Number(this.roomSelect.value)];
+    this.secretInput.checked = room?.secret === true;
+  }
+
+  // Mark the current room as a secret, leaving the flag out when cleared
+  private onSecretChange(): void {
+    const room = this.level?.rooms[Number(this.roomSelect.value)];
+    if (!room) return;
+
+    if (this.secretInput.checked) {
+      room.secret = true;
+    } else {
+      delete room.secret;
+    }
+  }
+
+  // List the textures that suit the current tool or selected surface
+  private updateTextureOptions(): void {
+    if (!this.level) return;
+
+    const kind = this.selected ? this.selected.kind : this.tool;
+    const types: TextureType[] =
+      ITEM_TEXTURE_TYPES[kind as EditorItemKind] ?? [];
+    const current = this.selected
+      ? getItemTexture(this.level, this.selected)
+      : this.textureSelect.value;
+
+    this.textureSelect.replaceChildren(
+      ...this.level.textures
+        .filter((texture) => types.includes(texture.type))
+        .map((texture) => new Option(texture.name, texture.name))
+    );
+    if (
+      current !== null &&
+      Array.from(this.textureSelect.options).some(
+        (option) => option.value === current
+      )
+    ) {
+      this.textureSelect.value = current;
+    }
+    this.textureSelect.disabled = types.length === 0;
+  }
+
+  private onTextureChange(): void {
+    if (this.level && this.selected) {
+      setItemTexture(this.level, this.selected, this.textureSelect.value);
+      this.render();
+    }
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    // Leave typing in the toolbar alone
+    if (event.target instanceof HTMLInputElement) return;
+    if (!this.level) return;
+
+    if (event.code === "Escape") {
+      this.selected = null;
+      this.updateTextureOptions();
+      this.render();
+      return;
+    }
+
+    if (!this.selected) return;
+
+    switch (event.code) {
+      case "Delete":
+      case "Backspace":
+        if (
+          this.selected.kind === "spawn" &&
+          this.level.spawnPoints.length === 1
+        ) {
+          this.setMessage("The last spawn point can be moved but not deleted");
+          return;
+        }
+        deleteItem(this.level, this.selected);
+        this.selected = null;
+        this.updateTextureOptions();
+        break;
+      case "KeyR":
+        rotateItem(this.level, this.selected);
+        break;
+      case "KeyF":
+        flipItem(this.level, this.selected);
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    this.render();
+  }
+
+  private onMouseDown(event: MouseEvent): void {
+    if (!this.level) return;
+
+    if (event.button !== 0) {
+      this.drag = { type: "pan", lastX: event.clientX, lastY: event.clientY };
+      return;
+    }
+
+    const point = this.toWorld(event);
+    const snapped = this.snap(point);
+
+    switch (this.tool) {
+      case "select":
+        this.selected = this.pick(point);
+        this.updateTextureOptions();
+        if (this.selected) {
+          this.drag = { type: "move", start: snapped, offset: { x: 0, z: 0 } };
+        }
+        break;
+      case "enemy":
+      case "spawn":
+        this.placePoint(snapped);
+        break;
+      default:
+        this.drag = { type: "draw", start: snapped, end: snapped };
+    }
+
+    this.render();
+  }
+
+  private onMouseMove(event: MouseEvent): void {
+    this.cursor = this.snap(this.toWorld(event));
+
+    if (this.drag?.type === "pan") {
+      this.view.x -= (event.clientX - this.drag.lastX) / this.view.scale;
+      this.view.z -= (event.clientY - this.drag.lastY) / this.view.scale;
+      this.drag.lastX = event.clientX;
+      this.drag.lastY = event.clientY;
+    } else if (this.drag?.type === "move" && this.level && this.selected) {
+      // Move by whole grid steps from where the drag started
+      const offset = {
+        x: this.cursor.x - this.drag.start.x,
+        z: this.cursor.z - this.drag.start.z,
+      };
+      moveItem(
+        this.level,
+        this.selected,
+        roundCoordinate(offset.x - this.drag.offset.x),
+        roundCoordinate(offset.z - this.drag.offset.z)
+      );
+      this.drag.offset = offset;
+    } else if (this.drag?.type === "draw") {
+      this.drag.end = this.cursor;
+    }
+
+    this.render();
+  }
+
+  private onMouseUp(): void {
+    if (this.drag?.type === "draw") {
+      this.createItem(this.drag.start, this.drag.end);
+    }
+    this.drag = null;
+    this.render();
+  }
+
+  // Zoom about the point under the cursor
+  private onWheel(event: WheelEvent): void {
+    event.preventDefault();
+
+    const before = this.toWorld(event);
+    const factor = event.deltaY < 0 ? 1.25 : 0.8;
+    this.view.scale = Math.min(
+      MAX_ZOOM,
+      Math.max(MIN_ZOOM, this.view.scale * factor)
+    );
+    const after = this.toWorld(event);
+    this.view.x += before.x - after.x;
+    this.view.z += before.z - after.z;
+
+    this.render();
+  }
+
+  // The topmost item under a point
+  private pick(point: ISectorVertex): EditorItem | null {
+    if (!this.level) return null;
+
+    const tolerance = PICK_TOLERANCE / this.view.scale;
+    const items = listItems(this.level);
+    for (let i = items.length - 1; i >= 0; i--) {
+      if (hitTestItem(this.level, items[i], point, tolerance)) {
+        return items[i];
+      }
+    }
+    return null;
+  }
+
+  private placePoint(point: ISectorVertex): void {
+    if (!this.level) return;
+
+    const bottom = this.getNumber(this.bottomInput, 0);
+
+    if (this.tool === "spawn") {
+      this.placeSpawnPoint(point, bottom, this.spawnSelect.value as SpawnTag);
+      return;
+    }
+
+    const enemies = (this.level.enemies ??= []);
+    enemies.push({
+      x: point.x,
+      y: bottom + ENEMY_HALF_HEIGHT,
+      z: point.z,
+      type: this.enemySelect.value,
+    });
+  }
+
+  // Each player has one start, so placing it again moves it there
+  private placeSpawnPoint(
+    point: ISectorVertex,
+    bottom: number,
+    tag: SpawnTag
+  ): void {
+    if (!this.level) return;
+
+    const spawnPoints = this.level.spawnPoints;
+    const existing =
+      tag === "deathmatch"
+        ? undefined
+        : spawnPoints.find((spawnPoint) => spawnPoint.tag === tag);
+    const spawnPoint: ISpawnPoint = {
+      tag,
+      x: point.x,
+      y: bottom,
+      z: point.z,
+      rotation: existing?.rotation ?? 0,
+    };
+
+    if (existing) {
+      spawnPoints[spawnPoints.indexOf(existing)] = spawnPoint;
+    } else {
+      spawnPoints.push(spawnPoint);
+    }
+  }
+
+  // Add a surface spanning a drag: walls follow the line, the rest fill the box
+  private createItem(start: ISectorVertex, end: ISectorVertex): void {
+    if (!this.level) return;
+
+    const room = this.level.rooms[Number(this.roomSelect.value)];
+    const texture = this.textureSelect.value;
+    if (!room) return;
+    if (!texture) {
+      this.setMessage(`Add a ${this.tool} texture to the level first`);
+      return;
+    }
+
+    const bottom = this.getNumber(this.bottomInput, 0);
+    const height = this.getNumber(this.heightInput, 1);
+
+    if (this.tool === "wall") {
+      const wall = createWallFromSegment(start, end, bottom, height, texture);
+      if (wall) room.walls.push(wall);
+      return;
+    }
+
+    const box = {
+      x: roundCoordinate((start.x + end.x) / 2),
+      y: bottom,
+      z: roundCoordinate((start.z + end.z) / 2),
+      width: roundCoordinate(Math.abs(end.x - start.x)),
+      texture,
+    };
+    const depth = roundCoordinate(Math.abs(end.z - start.z));
+    if (box.width === 0 || depth === 0) return;
+
+    switch (this.tool) {
+      case "floor":
+        room.floors.push({ ...box, length: depth, rotation: -Math.PI / 2 });
+        break;
+      case "step":
+        (room.steps ??= []).push({
+          ...box,
+          depth,
+          height,
+          rotation: 0,
+          normal: { x: 0, y: 1, z: 0 },
+        });
+        break;
+      case "block":
+        (room.blocks ??= []).push({ ...box, depth, height, rotation: 0 });
+        break;
+    }
+  }
+
+  private render(): void {
+    if (!this.level) return;
+
+    const { canvas, context } = this;
+    canvas.width = canvas.clientWidth;
+    canvas.height = canvas.clientHeight;
+
+    context.fillStyle = "#000000";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+
+    this.drawGrid();
+    this.drawContext();
+
+    listItems(this.level).forEach((item) => this.drawItem(item));
+    if (this.selected) {
+      this.drawItem(this.selected, SELECTED_COLOR);
+    }
+
+    if (this.drag?.type === "draw") {
+      this.drawPreview(this.drag.start, this.drag.end);
+    }
+
+    this.updateStatus();
+  }
+
+  private drawGrid(): void {
+    const { canvas, context } = this;
+    const grid = this.getGridSize();
+
+    const topLeft = this.toWorldAt(0, 0);
+    const bottomRight = this.toWorldAt(canvas.width, canvas.height);
+
+    context.lineWidth = 1;
+    if (grid * this.view.scale >= MIN_GRID_SPACING) {
+      context.strokeStyle = GRID_COLOR;
+      context.beginPath();
+      for (
+        let x = Math.ceil(topLeft.x / grid) * grid;
+        x <= bottomRight.x;
+        x += grid
+      ) {
+        const sx = this.toScreen({ x, z: 0 }).x;
+        context.moveTo(sx, 0);
+        context.lineTo(sx, canvas.height);
+      }
+      for (
+        let z = Math.ceil(topLeft.z / grid) * grid;
+        z <= bottomRight.z;
+        z += grid
+      ) {
+        const sy = this.toScreen({ x: 0, z }).y;
+        context.moveTo(0, sy);
+        context.lineTo(canvas.width, sy);
+      }
+      context.stroke();
+    }
+
+    const origin = this.toScreen({ x: 0, z: 0 });
+    context.strokeStyle = AXIS_COLOR;
+    context.beginPath();
+    context.moveTo(origin.x, 0);
+    context.lineTo(origin.x, canvas.height);
+    context.moveTo(0, origin.y);
+    context.lineTo(canvas.width, origin.y);
+    context.stroke();
+  }
+
+  // Level parts the editor shows but doesn't edit
+  private drawContext(): void {
+    if (!this.level) return;
+
+    this.context.strokeStyle = CONTEXT_COLOR;
+    this.context.fillStyle = CONTEXT_COLOR;
+
+    this.level.rooms.forEach((room) => {
+      (room.sectors ?? []).forEach((sector) =>
+        this.tracePolygon(sector.vertices, false)
+      );
+      [...(room.doors ?? []), ...(room.platforms ?? [])].forEach((box) =>
+        this.tracePolygon(
+          getBoxCorners(box.x, box.z, box.width, box.depth, box.rotation),
+          false
+        )
+      );
+    });
+
+    (this.level.entities ?? []).forEach((entity) => {
+      const point = this.toScreen(entity.position);
+      this.context.fillRect(point.x - 2, point.y - 2, 4, 4);
+    });
+  }
+
+  private drawItem(item: EditorItem, color: string = ITEM_COLORS[item.kind]) {
+    if (!this.level) return;
+
+    const outline = getItemOutline(this.level, item);
+    const { context } = this;
+    context.strokeStyle = color;
+    context.fillStyle = color;
+
+    if (item.kind === "spawn") {
+      const spawnPoint = this.level.spawnPoints[item.index];
+      if (spawnPoint) {
+        this.drawSpawn(outline[0], spawnPoint.rotation, color);
+      }
+      return;
+    }
+
+    if (item.kind === "enemy") {
+      const center = this.toScreen(outline[0]);
+      context.beginPath();
+      context.arc(center.x, center.y, 5, 0, Math.PI * 2);
+      context.fill();
+      return;
+    }
+
+    if (item.kind === "wall" && outline.length === 2) {
+      context.lineWidth = 2;
+      this.tracePolygon(outline, false);
+      context.lineWidth = 1;
+      this.drawWallNormal(item);
+      return;
+    }
+
+    context.globalAlpha = 0.35;
+    this.tracePolygon(outline, true);
+    context.globalAlpha = 1;
+    this.tracePolygon(outline, false);
+  }
+
+  // A short tick on the side the wall faces
+  private drawWallNormal(item: EditorItem): void {
+    const wall = this.level?.rooms[item.room]?.walls[item.index];
+    if (!wall) return;
+
+    const from = this.toScreen(wall);
+    const to = this.toScreen({
+      x: wall.x + wall.normal.x * 0.5,
+      z: wall.z + wall.normal.z * 0.5,
+    });
+    this.context.beginPath();
+    this.context.moveTo(from.x, from.y);
+    this.context.lineTo(to.x, to.y);
+    this.context.stroke();
+  }
+
+  // An arrow pointing the way the player faces (rotation 0 looks down -z)
+  private drawSpawn(
+    position: ISectorVertex,
+    rotation: number,
+    color: string
+  ): void {
+    const size = 1;
+    const forward = { x: -Math.sin(rotation), z: -Math.cos(rotation) };
+    const side = { x: -forward.z, z: forward.x };
+
+    this.context.fillStyle = color;
+    this.tracePolygon(
+      [
+        {
+          x: position.x + forward.x * size,
+          z: position.z + forward.z * size,
+        },
+        {
+          x: position.x - forward.x * size + side.x * size * 0.6,
+          z: position.z - forward.z * size + side.z * size * 0.6,
+        },
+        {
+          x: position.x - forward.x * size - side.x * size * 0.6,
+          z: position.z - forward.z * size - side.z * size * 0.6,
+        },
+      ],
+      true
+    );
+  }
+
+  private drawPreview(start: ISectorVertex, end: ISectorVertex): void {
+    this.context.strokeStyle = SELECTED_COLOR;
+    if (this.tool === "wall") {
+      this.tracePolygon([start, end], false);
+      return;
+    }
+
+    this.tracePolygon(
+      [start, { x: end.x, z: start.z }, end, { x: start.x, z: end.z }],
+      false
+    );
+  }
+
+  private tracePolygon(points: ISectorVertex[], fill: boolean): void {
+    if (points.length === 0) return;
+
+    const { context } = this;
+    context.beginPath();
+    points.forEach((point, index) => {
+      const screen = this.toScreen(point);
+      if (index === 0) {
+        context.moveTo(screen.x, screen.y);
+      } else {
+        context.lineTo(screen.x, screen.y);
+      }
+    });
+
+    if (fill) {
+      context.closePath();
+      context.fill();
+    } else {
+      if (points.length > 2) context.closePath();
+      context.stroke();
+    }
+  }
+
+  private updateStatus(): void {
+    if (!this.level) return;
+
+    const selection = this.selected
+      ? describeItem(this.level, this.selected)
+      : "Nothing selected";
+    this.statusElement.textContent = `${selection}  x ${this.cursor.x} z ${this.cursor.z}\n${this.message}`;
+  }
+
+  private setMessage(message: string): void {
+    this.message = message;
+    this.updateStatus();
+  }
+
+  // World x runs right and z runs down the screen, so north (-z) is up
+  private toScreen(point: { x: number; z: number }): { x: number; y: number } {
+    return {
+      x: (point.x - this.view.x) * this.view.scale + this.canvas.width / 2,
+      y: (point.z - this.view.z) * this.view.scale + this.canvas.height / 2,
+    };
+  }
+
+  private toWorldAt(screenX: number, screenY: number): ISectorVertex {
+    return {
+      x: (screenX - this.canvas.width / 2) / this.view.scale + this.view.x,
+      z: (screenY - this.canvas.height / 2) / this.view.scale + this.view.z,
+    };
+  }
+
+  private toWorld(event: MouseEvent): ISectorVertex {
+    const bounds = this.canvas.getBoundingClientRect();
+    return this.toWorldAt(
+      event.clientX - bounds.left,
+      event.clientY - bounds.top
+    );
+  }
+
+  private snap(point: ISectorVertex): ISectorVertex {
+    const grid = this.getGridSize();
+    return {
+      x: roundCoordinate(Math.round(point.x / grid) * grid),
+      z: roundCoordinate(Math.round(point.z / grid) * grid),
+    };
+  }
+
+  private getGridSize(): number {
+    const grid = this.getNumber(this.gridInput, 1);
+    return grid > 0 ? grid : 1;
+  }
+
+  private getNumber(input: HTMLInputElement, fallback: number): number {
+    const value = parseFloat(input.value);
+    return Number.isFinite(value) ? value : fallback;
+  }
+
+  private createButton(text: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.textContent = text;
+    button.addEventListener("click", onClick);
+    return button;
+  }
+
+  private createInput(type: string, value: string): HTMLInputElement {
+    const input = document.createElement("input");
+    input.type = type;
+    input.value = value;
+    return input;
+  }
+
+  private createLabel(text: string, control: HTMLElement): HTMLLabelElement {
+    const label = document.createElement("label");
+    label.append(`${text} `, control);
+    return label;
+  }
+}
+
+// Keep grid arithmetic from leaving float noise like 0.30000000000000004
+function roundCoordinate(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
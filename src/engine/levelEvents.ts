@@ -0,0 +1,58 @@
+import { TriggerActivation } from "../types/level";
+import { Trigger } from "./trigger";
+import { Pickup } from "./pickup";
+import { Secret } from "./secret";
+
+// Payloads for each event the level can raise, keyed by event name
+export interface LevelEventMap {
+  trigger: { trigger: Trigger; activation: TriggerActivation };
+  message: { text: string; duration: number };
+  endLevel: { nextLevel: string | null };
+  pickup: { pickup: Pickup };
+  secret: { secret: Secret };
+}
+
+export type LevelEventName = keyof LevelEventMap;
+
+type LevelEventListener<K extends LevelEventName> = (
+  event: LevelEventMap[K]
+) => void;
+
+/**
+ * Named events raised by level scripting, for the game and HUD to react to
+ */
+export class LevelEvents {
+  private listeners: {
+    [K in LevelEventName]?: LevelEventListener<K>[];
+  } = {};
+
+  /**
+   * Listen for an event. Returns a function that removes the listener.
+   */
+  public on<K extends LevelEventName>(
+    name: K,
+    listener: LevelEventListener<K>
+  ): () => void {
+    const listeners = (this.listeners[name] ??= []) as LevelEventListener<K>[];
+    listeners.push(listener);
+
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }
+
+  public emit<K extends LevelEventName>(
+    name: K,
+    event: LevelEventMap[K]
+  ): void {
+    const listeners = this.listeners[name] as
+      | LevelEventListener<K>[]
+      | undefined;
+
+    // Copy so listeners can unsubscribe while we're notifying
+    listeners?.slice().forEach((listener) => listener(event));
+  }
+}
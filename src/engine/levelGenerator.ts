@@ -0,0 +1,588 @@
+import {
+  ENEMY_TYPE_NAMES,
+  IEnemyLocations,
+  ILevel,
+  IRoom,
+  ISectorVertex,
+  ISpawnPoint,
+  ITexture,
+  SpawnTag,
+} from "../types/level";
+import { createWallFromSegment } from "./wallGeometry";
+
+export interface LevelGeneratorOptions {
+  seed: number;
+  width?: number; // Room grid cells along x
+  depth?: number; // Room grid cells along z
+  roomCount?: number; // Rooms to place, at most width x depth
+  maxEnemiesPerRoom?: number;
+  name?: string;
+}
+
+// Each room sits in its own square cell, joined to neighbours by corridors
+const CELL_SIZE = 32;
+const MIN_ROOM_SIZE = 12;
+const MAX_ROOM_SIZE = 24;
+const ROOM_HEIGHT = 6; // Floor to ceiling
+
+// Wide enough for the player's 1.5 collision radius with room to spare
+const CORRIDOR_WIDTH = 5;
+
+// Floors start above the player's fall-through failsafe (see Player)
+const BASE_FLOOR_HEIGHT = 1;
+const FLOOR_HEIGHT_CHANGE = 1; // Rooms rise or fall by up to two of these
+const MAX_FLOOR_HEIGHT = BASE_FLOOR_HEIGHT + 4 * FLOOR_HEIGHT_CHANGE;
+
+// Steps stay under the player's 0.5 maximum step height
+const MAX_STEP_RISE = 0.4;
+const STEP_RUN = 1;
+
+// Blocks keep this far from walls and the room's centre lines, so there is
+// always a way around them to every doorway
+const COVER_CLEARANCE = 3.5;
+const MIN_COVER_SIZE = 2;
+const MAX_COVER_SIZE = 4;
+const COVER_HEIGHTS = [1.5, 2, 3];
+const COVER_CHANCE = 0.5; // Per quarter of a room
+
+// Chance of an extra corridor between neighbouring rooms, making loops
+const LOOP_CHANCE = 0.2;
+const MAX_LOOP_HEIGHT_CHANGE = 2 * FLOOR_HEIGHT_CHANGE;
+
+// Enemy placeholder meshes are 2 units tall and centred on their position
+const ENEMY_HALF_HEIGHT = 1;
+const ENEMY_RADIUS = 1; // See Enemy.collisionRadius
+const ENEMY_WALL_CLEARANCE = 2;
+
+const TEXTURES: ITexture[] = [
+  { type: "wall", name: "wall1", path: "FreeDoomWall1.png" },
+  { type: "wall", name: "wall2", path: "FreeDoomWall2.png" },
+  { type: "wall", name: "wall3", path: "FreeDoomWall3.png" },
+  { type: "floor", name: "floor1", path: "FreeDoomFloor1.png" },
+  { type: "floor", name: "floor2", path: "FreeDoomFloor2.png" },
+  { type: "step", name: "step", path: "FreeDoomFloor1.png" },
+  { type: "block", name: "block", path: "FreeDoomFloor2.png" },
+];
+const WALL_TEXTURES = ["wall1", "wall2", "wall3"];
+const FLOOR_TEXTURES = ["floor1", "floor2"];
+
+type Side = "north" | "south" | "east" | "west";
+
+interface GeneratedRoom {
+  cellX: number;
+  cellZ: number;
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+  floorHeight: number;
+  wallTexture: string;
+  doorways: Set<Side>;
+  room: IRoom;
+}
+
+/**
+ * Build a random level from a seed; the same options always give the same
+ * level. Rooms are laid out on a grid and grown outwards from the spawn
+ * room as a tree of corridors, so every room can be reached from the
+ * spawn point. Height changes are climbed by steps the player can take.
+ */
+export function generateLevel(options: LevelGeneratorOptions): ILevel {
+  return new LevelGenerator(options).generate();
+}
+
+// Mulberry32: small, fast and good enough for level layouts
+class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Integer in [min, max]
+  public int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  public pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+}
+
+class LevelGenerator {
+  private random: SeededRandom;
+  private width: number;
+  private depth: number;
+  private roomCount: number;
+  private maxEnemiesPerRoom: number;
+  private name: string;
+  private cells: Map<string, GeneratedRoom> = new Map();
+  private rooms: GeneratedRoom[] = [];
+
+  constructor(options: LevelGeneratorOptions) {
+    this.random = new SeededRandom(options.seed);
+    this.width = Math.max(1, Math.floor(options.width ?? 4));
+    this.depth = Math.max(1, Math.floor(options.depth ?? 4));
+    this.roomCount = Math.min(
+      this.width * this.depth,
+      Math.max(
+        1,
+        Math.floor(
+          options.roomCount ?? Math.ceil(this.width * this.depth * 0.6)
+        )
+      )
+    );
+    this.maxEnemiesPerRoom = options.maxEnemiesPerRoom ?? 3;
+    this.name = options.name ?? `Generated ${options.seed}`;
+  }
+
+  public generate(): ILevel {
+    this.placeRooms();
+    this.addLoops();
+    this.rooms.forEach((room) => this.buildRoom(room));
+
+    const start = this.rooms[0];
+    const enemies = this.rooms
+      .slice(1)
+      .flatMap((room) => this.placeEnemies(room));
+
+    return {
+      name: this.name,
+      // Cover keeps clear of room centres, so each one doubles as a
+      // deathmatch start
+      spawnPoints: [
+        createRoomSpawnPoint(start, "player1"),
+        ...this.rooms.map((room) => createRoomSpawnPoint(room, "deathmatch")),
+      ],
+      textures: TEXTURES.map((texture) => ({ ...texture })),
+      rooms: this.rooms.map((room) => room.room),
+      enemies,
+    };
+  }
+
+  /**
+   * Grow rooms from the spawn room, each joined to one already placed.
+   * The corridors form a tree, which keeps every room reachable.
+   */
+  private placeRooms(): void {
+    this.createRoom(
+      this.random.int(0, this.width - 1),
+      this.random.int(0, this.depth - 1),
+      BASE_FLOOR_HEIGHT
+    );
+
+    while (this.rooms.length < this.roomCount) {
+      const frontier = this.rooms.flatMap((room) =>
+        this.getFreeNeighbours(room).map((side) => ({ room, side }))
+      );
+      if (frontier.length === 0) break;
+
+      const { room, side } = this.random.pick(frontier);
+      const [cellX, cellZ] = this.getNeighbourCell(room, side);
+      const floorHeight = Math.min(
+        MAX_FLOOR_HEIGHT,
+        Math.max(
+          BASE_FLOOR_HEIGHT,
+          room.floorHeight + this.random.int(-2, 2) * FLOOR_HEIGHT_CHANGE
+        )
+      );
+      const neighbour = this.createRoom(cellX, cellZ, floorHeight);
+      this.connect(room, neighbour, side);
+    }
+  }
+
+  // Join some rooms that are next to each other but not yet connected,
+  // if their floors are close enough for the corridor to fit the steps
+  private addLoops(): void {
+    this.rooms.forEach((room) => {
+      (["east", "south"] as Side[]).forEach((side) => {
+        if (room.doorways.has(side)) return;
+
+        const [cellX, cellZ] = this.getNeighbourCell(room, side);
+        const neighbour = this.cells.get(`${cellX},${cellZ}`);
+        if (
+          neighbour &&
+          Math.abs(neighbour.floorHeight - room.floorHeight) <=
+            MAX_LOOP_HEIGHT_CHANGE &&
+          this.random.chance(LOOP_CHANCE)
+        ) {
+          this.connect(room, neighbour, side);
+        }
+      });
+    });
+  }
+
+  private createRoom(
+    cellX: number,
+    cellZ: number,
+    floorHeight: number
+  ): GeneratedRoom {
+    // Even sizes keep room edges on whole units
+    const size = () =>
+      2 * this.random.int(MIN_ROOM_SIZE / 2, MAX_ROOM_SIZE / 2);
+    const width = size();
+    const depth = size();
+    const centerX = (cellX + 0.5) * CELL_SIZE;
+    const centerZ = (cellZ + 0.5) * CELL_SIZE;
+
+    const room: GeneratedRoom = {
+      cellX,
+      cellZ,
+      minX: centerX - width / 2,
+      maxX: centerX + width / 2,
+      minZ: centerZ - depth / 2,
+      maxZ: centerZ + depth / 2,
+      floorHeight,
+      wallTexture: this.random.pick(WALL_TEXTURES),
+      doorways: new Set(),
+      room: {
+        walls: [],
+        floors: [],
+        steps: [],
+        blocks: [],
+        sectors: [],
+        lightLevel: this.random.int(144, 255),
+      },
+    };
+
+    this.cells.set(`${cellX},${cellZ}`, room);
+    this.rooms.push(room);
+    return room;
+  }
+
+  private getFreeNeighbours(room: GeneratedRoom): Side[] {
+    return (["north", "south", "east", "west"] as Side[]).filter((side) => {
+      const [cellX, cellZ] = this.getNeighbourCell(room, side);
+      return (
+        cellX >= 0 &&
+        cellX < this.width &&
+        cellZ >= 0 &&
+        cellZ < this.depth &&
+        !this.cells.has(`${cellX},${cellZ}`)
+      );
+    });
+  }
+
+  // North is -z, matching the player's facing at rotation 0
+  private getNeighbourCell(room: GeneratedRoom, side: Side): [number, number] {
+    switch (side) {
+      case "north":
+        return [room.cellX, room.cellZ - 1];
+      case "south":
+        return [room.cellX, room.cellZ + 1];
+      case "east":
+        return [room.cellX + 1, room.cellZ];
+      case "west":
+        return [room.cellX - 1, room.cellZ];
+    }
+  }
+
+  /**
+   * Run a corridor from a room's side to its neighbour, with steps at the
+   * higher end when their floors differ. The corridor belongs to the
+   * first room.
+   */
+  private connect(from: GeneratedRoom, to: GeneratedRoom, side: Side): void {
+    from.doorways.add(side);
+    to.doorways.add(OPPOSITE_SIDES[side]);
+
+    const alongX = side === "east" || side === "west";
+    const [first, second] =
+      side === "east" || side === "south" ? [from, to] : [to, from];
+
+    // Corridor runs from `start` to `end` along its axis, centred on `center`
+    const start = alongX ? first.maxX : first.maxZ;
+    const end = alongX ? second.minX : second.minZ;
+    const center = alongX
+      ? (first.cellZ + 0.5) * CELL_SIZE
+      : (first.cellX + 0.5) * CELL_SIZE;
+    const halfWidth = CORRIDOR_WIDTH / 2;
+
+    const lower = Math.min(first.floorHeight, second.floorHeight);
+    const upper = Math.max(first.floorHeight, second.floorHeight);
+    const ceiling = upper + ROOM_HEIGHT;
+    const point = (along: number, across: number): ISectorVertex =>
+      alongX ? { x: along, z: across } : { x: across, z: along };
+
+    const corridor = from.room;
+    corridor.sectors!.push({
+      vertices: [
+        point(start, center - halfWidth),
+        point(end, center - halfWidth),
+        point(end, center + halfWidth),
+        point(start, center + halfWidth),
+      ],
+      floorHeight: lower,
+      ceilingHeight: ceiling,
+      floorTexture: this.random.pick(FLOOR_TEXTURES),
+      ceilingTexture: FLOOR_TEXTURES[0],
+    });
+
+    // Side walls face into the corridor
+    const sideWalls: [ISectorVertex, ISectorVertex][] = alongX
+      ? [
+          [point(start, center - halfWidth), point(end, center - halfWidth)],
+          [point(end, center + halfWidth), point(start, center + halfWidth)],
+        ]
+      : [
+          [point(start, center + halfWidth), point(end, center + halfWidth)],
+          [point(end, center - halfWidth), point(start, center - halfWidth)],
+        ];
+    sideWalls.forEach(([a, b]) =>
+      this.addWall(corridor, a, b, lower, ceiling, from.wallTexture)
+    );
+
+    if (upper === lower) return;
+
+    // Climb from the lower floor so the top step meets the higher doorway
+    const stepCount = Math.ceil((upper - lower) / MAX_STEP_RISE);
+    const rise = (upper - lower) / stepCount;
+    const climbsForward = second.floorHeight > first.floorHeight;
+
+    for (let i = 1; i <= stepCount; i++) {
+      // Step i is i risers tall, i runs back from the higher room
+      const offset = (stepCount - i + 0.5) * STEP_RUN;
+      const along = climbsForward ? end - offset : start + offset;
+      const position = point(along, center);
+
+      corridor.steps!.push({
+        x: position.x,
+        y: lower,
+        z: position.z,
+        width: alongX ? STEP_RUN : CORRIDOR_WIDTH,
+        depth: alongX ? CORRIDOR_WIDTH : STEP_RUN,
+        height: roundHeight(i * rise),
+        rotation: 0,
+        texture: "step",
+        normal: { x: 0, y: 1, z: 0 },
+      });
+    }
+  }
+
+  // Floor, ceiling and walls (broken by doorways), plus cover
+  private buildRoom(room: GeneratedRoom): void {
+    const { minX, maxX, minZ, maxZ, floorHeight } = room;
+    const ceiling = floorHeight + ROOM_HEIGHT;
+
+    room.room.sectors!.push({
+      vertices: [
+        { x: minX, z: minZ },
+        { x: maxX, z: minZ },
+        { x: maxX, z: maxZ },
+        { x: minX, z: maxZ },
+      ],
+      floorHeight,
+      ceilingHeight: ceiling,
+      floorTexture: this.random.pick(FLOOR_TEXTURES),
+      ceilingTexture: FLOOR_TEXTURES[0],
+    });
+
+    // Corners in order so each wall's right-hand side faces into the room
+    const corners: Record<Side, [ISectorVertex, ISectorVertex]> = {
+      north: [
+        { x: minX, z: minZ },
+        { x: maxX, z: minZ },
+      ],
+      east: [
+        { x: maxX, z: minZ },
+        { x: maxX, z: maxZ },
+      ],
+      south: [
+        { x: maxX, z: maxZ },
+        { x: minX, z: maxZ },
+      ],
+      west: [
+        { x: minX, z: maxZ },
+        { x: minX, z: minZ },
+      ],
+    };
+
+    (Object.keys(corners) as Side[]).forEach((side) => {
+      const [a, b] = corners[side];
+      if (!room.doorways.has(side)) {
+        this.addWall(room.room, a, b, floorHeight, ceiling, room.wallTexture);
+        return;
+      }
+
+      // Leave a corridor-wide gap in the middle, with a lintel above it
+      // if the corridor's ceiling is higher than the room's
+      const gap = CORRIDOR_WIDTH / Math.hypot(b.x - a.x, b.z - a.z);
+      const gapStart = lerp(a, b, 0.5 - gap / 2);
+      const gapEnd = lerp(a, b, 0.5 + gap / 2);
+
+      this.addWall(
+        room.room,
+        a,
+        gapStart,
+        floorHeight,
+        ceiling,
+        room.wallTexture
+      );
+      this.addWall(
+        room.room,
+        gapEnd,
+        b,
+        floorHeight,
+        ceiling,
+        room.wallTexture
+      );
+
+      const [cellX, cellZ] = this.getNeighbourCell(room, side);
+      const neighbour = this.cells.get(`${cellX},${cellZ}`);
+      const corridorCeiling =
+        Math.max(floorHeight, neighbour?.floorHeight ?? floorHeight) +
+        ROOM_HEIGHT;
+      if (corridorCeiling > ceiling) {
+        this.addWall(
+          room.room,
+          gapStart,
+          gapEnd,
+          ceiling,
+          corridorCeiling,
+          room.wallTexture
+        );
+      }
+    });
+
+    this.placeCover(room);
+  }
+
+  /**
+   * At most one block per quadrant, clear of the walls and of the lines
+   * between doorways, so cover never cuts a room in two
+   */
+  private placeCover(room: GeneratedRoom): void {
+    const centerX = (room.minX + room.maxX) / 2;
+    const centerZ = (room.minZ + room.maxZ) / 2;
+
+    [
+      [room.minX, centerX],
+      [centerX, room.maxX],
+    ].forEach(([quadrantMinX, quadrantMaxX]) => {
+      [
+        [room.minZ, centerZ],
+        [centerZ, room.maxZ],
+      ].forEach(([quadrantMinZ, quadrantMaxZ]) => {
+        if (!this.random.chance(COVER_CHANCE)) return;
+
+        const width = this.random.int(MIN_COVER_SIZE, MAX_COVER_SIZE);
+        const depth = this.random.int(MIN_COVER_SIZE, MAX_COVER_SIZE);
+        const freeX = quadrantMaxX - quadrantMinX - 2 * COVER_CLEARANCE - width;
+        const freeZ = quadrantMaxZ - quadrantMinZ - 2 * COVER_CLEARANCE - depth;
+        if (freeX < 0 || freeZ < 0) return;
+
+        room.room.blocks!.push({
+          x:
+            quadrantMinX +
+            COVER_CLEARANCE +
+            width / 2 +
+            Math.floor(this.random.range(0, freeX)),
+          y: room.floorHeight,
+          z:
+            quadrantMinZ +
+            COVER_CLEARANCE +
+            depth / 2 +
+            Math.floor(this.random.range(0, freeZ)),
+          width,
+          depth,
+          height: this.random.pick(COVER_HEIGHTS),
+          rotation: 0,
+          texture: "block",
+        });
+      });
+    });
+  }
+
+  // Enemies of mixed types, kept off the cover
+  private placeEnemies(room: GeneratedRoom): IEnemyLocations[] {
+    const enemies: IEnemyLocations[] = [];
+    const count = this.random.int(0, this.maxEnemiesPerRoom);
+
+    for (let i = 0; i < count; i++) {
+      const x = this.random.range(
+        room.minX + ENEMY_WALL_CLEARANCE,
+        room.maxX - ENEMY_WALL_CLEARANCE
+      );
+      const z = this.random.range(
+        room.minZ + ENEMY_WALL_CLEARANCE,
+        room.maxZ - ENEMY_WALL_CLEARANCE
+      );
+
+      const onCover = room.room.blocks!.some(
+        (block) =>
+          Math.abs(x - block.x) < block.width / 2 + ENEMY_RADIUS &&
+          Math.abs(z - block.z) < block.depth / 2 + ENEMY_RADIUS
+      );
+      if (onCover) continue;
+
+      enemies.push({
+        x: roundHeight(x),
+        y: room.floorHeight + ENEMY_HALF_HEIGHT,
+        z: roundHeight(z),
+        type: this.random.pick(ENEMY_TYPE_NAMES),
+      });
+    }
+
+    return enemies;
+  }
+
+  private addWall(
+    room: IRoom,
+    start: ISectorVertex,
+    end: ISectorVertex,
+    bottom: number,
+    top: number,
+    texture: string
+  ): void {
+    const wall = createWallFromSegment(
+      start,
+      end,
+      bottom,
+      top - bottom,
+      texture
+    );
+    if (wall) room.walls.push(wall);
+  }
+}
+
+const OPPOSITE_SIDES: Record<Side, Side> = {
+  north: "south",
+  south: "north",
+  east: "west",
+  west: "east",
+};
+
+function createRoomSpawnPoint(room: GeneratedRoom, tag: SpawnTag): ISpawnPoint {
+  return {
+    tag,
+    x: (room.minX + room.maxX) / 2,
+    y: room.floorHeight,
+    z: (room.minZ + room.maxZ) / 2,
+    rotation: 0,
+  };
+}
+
+function lerp(a: ISectorVertex, b: ISectorVertex, t: number): ISectorVertex {
+  return { x: a.x + (b.x - a.x) * t, z: a.z + (b.z - a.z) * t };
+}
+
+// Keep accumulated step heights from printing as 1.2000000000000002
+function roundHeight(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,84 @@
+import { ILevel } from "../types/level";
+import { InvalidLevelError, validateLevel } from "./levelValidator";
+
+// A level can be provided inline, as a URL/path to a JSON file, or by a
+// function that builds it (e.g. importing a map from a WAD)
+export type LevelSource = ILevel | string | (() => Promise<ILevel>);
+
+/**
+ * Bring valid level data written for an older format up to date: a single
+ * spawnPoint becomes player 1's start. Returns a copy if anything changed.
+ */
+export function upgradeLegacyLevel(level: ILevel): ILevel {
+  if (level.spawnPoints !== undefined || level.spawnPoint === undefined) {
+    return level;
+  }
+
+  const { spawnPoint, ...rest } = level;
+  return { ...rest, spawnPoints: [{ ...spawnPoint, tag: "player1" }] };
+}
+
+export class LevelLoader {
+  private sources: Map<string, LevelSource> = new Map();
+  private cache: Map<string, ILevel> = new Map();
+
+  public register(id: string, source: LevelSource): void {
+    this.sources.set(id, source);
+    // Drop any cached copy so the new source is used next time
+    this.cache.delete(id);
+  }
+
+  public has(id: string): boolean {
+    return this.sources.has(id);
+  }
+
+  public getLevelIds(): string[] {
+    return Array.from(this.sources.keys());
+  }
+
+  public async load(id: string): Promise<ILevel> {
+    const cached = this.cache.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    const source = this.sources.get(id);
+    if (source === undefined) {
+      throw new Error(`Unknown level: ${id}`);
+    }
+
+    const levelData = await LevelLoader.resolve(source);
+
+    // Refuse to build a level from data that doesn't match the format
+    const errors = validateLevel(levelData);
+    if (errors.length > 0) {
+      throw new InvalidLevelError(levelData.name ?? id, errors);
+    }
+
+    const level = upgradeLegacyLevel(levelData);
+    this.cache.set(id, level);
+    return level;
+  }
+
+  /**
+   * Resolve a level source to level data, fetching or building it if needed
+   */
+  public static async resolve(source: LevelSource): Promise<ILevel> {
+    if (typeof source === "function") {
+      return source();
+    }
+
+    if (typeof source !== "string") {
+      return source;
+    }
+
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to load level from ${source}: ${response.status} ${response.statusText}`
+      );
+    }
+
+    return (await response.json()) as ILevel;
+  }
+}
@@ -0,0 +1,34 @@
+// What the player found and finished on the current level
+export class LevelStats {
+  public kills: number = 0;
+  public totalKills: number = 0;
+  public items: number = 0;
+  public totalItems: number = 0;
+  public secrets: number = 0;
+  public totalSecrets: number = 0;
+  public elapsedTime: number = 0; // ms of play, not counting pauses
+
+  // A level with nothing to find counts as fully cleared
+  public static percentage(count: number, total: number): number {
+    return total === 0 ? 100 : Math.floor((count / total) * 100);
+  }
+
+  public static formatTime(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+  }
+
+  public getKillPercentage(): number {
+    return LevelStats.percentage(this.kills, this.totalKills);
+  }
+
+  public getItemPercentage(): number {
+    return LevelStats.percentage(this.items, this.totalItems);
+  }
+
+  public getSecretPercentage(): number {
+    return LevelStats.percentage(this.secrets, this.totalSecrets);
+  }
+}
@@ -0,0 +1,1043 @@
+import * as THREE from "three";
+import {
+  DoorDirection,
+  ENEMY_TYPE_NAMES,
+  IRoom,
+  KEY_COLORS,
+  LevelActionType,
+  LightSpecial,
+  PlatformMode,
+  SPAWN_TAG_NAMES,
+  TextureType,
+} from "../types/level";
+import {
+  EntityDefinition,
+  EntityPropertyRule,
+  EntityRegistry,
+} from "./entityRegistry";
+import { entityRegistry } from "./entities";
+import { createRoomFloorPlan, SECRET_EYE_HEIGHT } from "./secret";
+
+export interface LevelValidationError {
+  path: string; // JSON path of the offending value, e.g. rooms[0].walls[3].texture
+  message: string;
+}
+
+export class InvalidLevelError extends Error {
+  public errors: LevelValidationError[];
+
+  constructor(levelName: string, errors: LevelValidationError[]) {
+    super(
+      `Level "${levelName}" failed validation:\n${formatValidationErrors(
+        errors
+      )}`
+    );
+    this.name = "InvalidLevelError";
+    this.errors = errors;
+  }
+}
+
+const TEXTURE_TYPES: TextureType[] = ["wall", "floor", "step", "block"];
+
+const DOOR_DIRECTIONS: DoorDirection[] = ["up", "down", "left", "right"];
+
+const PLATFORM_MODES: PlatformMode[] = ["loop", "trigger"];
+
+const LIGHT_SPECIALS: LightSpecial[] = ["flicker", "strobe", "glow", "pulse"];
+
+const LEVEL_ACTION_TYPES: LevelActionType[] = [
+  "openDoor",
+  "activatePlatform",
+  "spawnEnemies",
+  "message",
+  "endLevel",
+];
+
+// Texture types each surface kind can reference (mirrors Level.loadTextures)
+const SURFACE_TEXTURE_TYPES: Record<string, TextureType[]> = {
+  walls: ["wall"],
+  floors: ["floor"],
+  steps: ["step", "block"],
+  blocks: ["step", "block"],
+};
+
+const NORMAL_LENGTH_TOLERANCE = 0.001;
+
+type JsonObject = Record<string, unknown>;
+
+// Things level scripting can refer to by id
+type IdKind = "door" | "platform" | "entity";
+
+class ValidationContext {
+  public errors: LevelValidationError[] = [];
+  public textureTypes: Map<string, TextureType> = new Map();
+  public ids: Map<string, IdKind> = new Map(); // What each id names
+  public entityRegistry: EntityRegistry;
+
+  constructor(entityRegistry: EntityRegistry) {
+    this.entityRegistry = entityRegistry;
+  }
+
+  public error(path: string, message: string): void {
+    this.errors.push({ path, message });
+  }
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function requireObject(
+  context: ValidationContext,
+  value: unknown,
+  path: string
+): value is JsonObject {
+  if (!isObject(value)) {
+    context.error(path, "expected an object");
+    return false;
+  }
+  return true;
+}
+
+function requireArray(
+  context: ValidationContext,
+  value: unknown,
+  path: string
+): value is unknown[] {
+  if (!Array.isArray(value)) {
+    context.error(path, "expected an array");
+    return false;
+  }
+  return true;
+}
+
+function requireString(
+  context: ValidationContext,
+  value: unknown,
+  path: string
+): value is string {
+  if (typeof value !== "string" || value.length === 0) {
+    context.error(path, "expected a non-empty string");
+    return false;
+  }
+  return true;
+}
+
+function requireNumbers(
+  context: ValidationContext,
+  object: JsonObject,
+  path: string,
+  fields: string[]
+): void {
+  fields.forEach((field) => {
+    const value = object[field];
+    if (value === undefined) {
+      context.error(`${path}.${field}`, "missing required number");
+    } else if (!isFiniteNumber(value)) {
+      context.error(`${path}.${field}`, "expected a finite number");
+    }
+  });
+}
+
+function validateVector(
+  context: ValidationContext,
+  value: unknown,
+  path: string
+): boolean {
+  if (!requireObject(context, value, path)) return false;
+
+  const errorCount = context.errors.length;
+  requireNumbers(context, value, path, ["x", "y", "z"]);
+  return context.errors.length === errorCount;
+}
+
+function validateNormal(
+  context: ValidationContext,
+  value: unknown,
+  path: string
+): void {
+  if (!validateVector(context, value, path)) return;
+
+  const normal = value as { x: number; y: number; z: number };
+  const length = Math.sqrt(
+    normal.x * normal.x + normal.y * normal.y + normal.z * normal.z
+  );
+
+  if (Math.abs(length - 1) > NORMAL_LENGTH_TOLERANCE) {
+    context.error(
+      path,
+      `normal must be unit length (got length ${length.toFixed(4)})`
+    );
+  }
+}
+
+function validateTextureReference(
+  context: ValidationContext,
+  value: unknown,
+  path: string,
+  allowedTypes: TextureType[]
+): void {
+  if (!requireString(context, value, path)) return;
+
+  const textureType = context.textureTypes.get(value);
+  if (textureType === undefined) {
+    context.error(path, `unknown texture "${value}"`);
+  } else if (!allowedTypes.includes(textureType)) {
+    context.error(
+      path,
+      `texture "${value}" is a ${textureType} texture, expected ${allowedTypes.join(
+        " or "
+      )}`
+    );
+  }
+}
+
+function validateTextures(context: ValidationContext, value: unknown): void {
+  if (!requireArray(context, value, "textures")) return;
+
+  value.forEach((texture, index) => {
+    const path = `textures[${index}]`;
+    if (!requireObject(context, texture, path)) return;
+
+    const nameValid = requireString(context, texture.name, `${path}.name`);
+    requireString(context, texture.path, `${path}.path`);
+    validateTextureAnimation(context, texture, path);
+
+    const type = texture.type;
+    const typeValid = TEXTURE_TYPES.includes(type as TextureType);
+    if (!typeValid) {
+      context.error(
+        `${path}.type`,
+        `unknown texture type "${String(
+          type
+        )}", expected one of ${TEXTURE_TYPES.join(", ")}`
+      );
+    }
+
+    if (!nameValid) return;
+
+    const name = texture.name as string;
+    if (context.textureTypes.has(name)) {
+      context.error(`${path}.name`, `duplicate texture name "${name}"`);
+    } else if (typeValid) {
+      context.textureTypes.set(name, type as TextureType);
+    }
+  });
+}
+
+function validateTextureAnimation(
+  context: ValidationContext,
+  texture: JsonObject,
+  path: string
+): void {
+  if (texture.frames !== undefined) {
+    if (requireArray(context, texture.frames, `${path}.frames`)) {
+      texture.frames.forEach((frame, index) => {
+        requireString(context, frame, `${path}.frames[${index}]`);
+      });
+    }
+  }
+
+  if (
+    texture.frameTime !== undefined &&
+    (!isFiniteNumber(texture.frameTime) || texture.frameTime <= 0)
+  ) {
+    context.error(`${path}.frameTime`, "expected a positive number");
+  }
+
+  if (
+    texture.scroll !== undefined &&
+    requireObject(context, texture.scroll, `${path}.scroll`)
+  ) {
+    requireNumbers(context, texture.scroll, `${path}.scroll`, ["x", "y"]);
+  }
+}
+
+function validateSurfaces(
+  context: ValidationContext,
+  room: JsonObject,
+  roomPath: string,
+  key: string,
+  required: boolean,
+  numberFields: string[],
+  hasNormal: boolean
+): void {
+  const surfaces = room[key];
+  const path = `${roomPath}.${key}`;
+
+  if (surfaces === undefined && !required) return;
+  if (!requireArray(context, surfaces, path)) return;
+
+  surfaces.forEach((surface, index) => {
+    const surfacePath = `${path}[${index}]`;
+    if (!requireObject(context, surface, surfacePath)) return;
+
+    requireNumbers(context, surface, surfacePath, numberFields);
+    validateTextureReference(
+      context,
+      surface.texture,
+      `${surfacePath}.texture`,
+      SURFACE_TEXTURE_TYPES[key]
+    );
+
+    if (hasNormal) {
+      validateNormal(context, surface.normal, `${surfacePath}.normal`);
+    }
+
+    validateTextureMapping(context, surface, surfacePath);
+  });
+}
+
+function validateTextureMapping(
+  context: ValidationContext,
+  surface: JsonObject,
+  path: string
+): void {
+  ["textureOffset", "textureScale"].forEach((field) => {
+    const value = surface[field];
+    if (value === undefined) return;
+    if (!requireObject(context, value, `${path}.${field}`)) return;
+
+    requireNumbers(context, value, `${path}.${field}`, ["x", "y"]);
+  });
+
+  const scale = surface.textureScale;
+  if (isObject(scale)) {
+    ["x", "y"].forEach((axis) => {
+      if (scale[axis] === 0) {
+        context.error(`${path}.textureScale.${axis}`, "scale cannot be zero");
+      }
+    });
+  }
+
+  if (
+    surface.textureRotation !== undefined &&
+    !isFiniteNumber(surface.textureRotation)
+  ) {
+    context.error(`${path}.textureRotation`, "expected a finite number");
+  }
+}
+
+function validateRooms(context: ValidationContext, value: unknown): void {
+  if (!requireArray(context, value, "rooms")) return;
+
+  value.forEach((room, index) => {
+    const path = `rooms[${index}]`;
+    if (!requireObject(context, room, path)) return;
+    const errorCount = context.errors.length;
+
+    const boxFields = ["x", "y", "z", "width", "depth", "height", "rotation"];
+    validateSurfaces(context, room, path, "walls", true, boxFields, true);
+    validateSurfaces(
+      context,
+      room,
+      path,
+      "floors",
+      true,
+      ["x", "y", "z", "width", "length", "rotation"],
+      false
+    );
+    validateSurfaces(context, room, path, "steps", false, boxFields, true);
+    validateSurfaces(context, room, path, "blocks", false, boxFields, false);
+    validateSectors(context, room.sectors, `${path}.sectors`);
+    validateCeilings(context, room.ceilings, `${path}.ceilings`);
+    validateDoors(context, room.doors, `${path}.doors`);
+    validatePlatforms(context, room.platforms, `${path}.platforms`);
+    validateLighting(context, room, path);
+
+    if (room.secret !== undefined && typeof room.secret !== "boolean") {
+      context.error(`${path}.secret`, "expected a boolean");
+    }
+
+    // Only a well-formed room has a floor plan to check
+    if (room.secret === true && context.errors.length === errorCount) {
+      validateSecretRoomHeight(context, room, path);
+    }
+  });
+}
+
+// A player standing on each of a secret room's floors has to count as
+// being in the room, or the secret can never be found
+function validateSecretRoomHeight(
+  context: ValidationContext,
+  value: unknown,
+  path: string
+): void {
+  const room = value as IRoom;
+  const floorPlan = createRoomFloorPlan(room);
+
+  room.floors.forEach((floor, index) => {
+    const eye = new THREE.Vector3(
+      floor.x,
+      floor.y + SECRET_EYE_HEIGHT,
+      floor.z
+    );
+    if (!floorPlan.containsPoint(eye)) {
+      context.error(
+        `${path}.floors[${index}]`,
+        "a player standing here is above the secret room's walls and ceilings, so it can't be found"
+      );
+    }
+  });
+}
+
+function validateLighting(
+  context: ValidationContext,
+  object: JsonObject,
+  path: string
+): void {
+  ["lightLevel", "lightMin"].forEach((field) => {
+    const value = object[field];
+    if (
+      value !== undefined &&
+      (!isFiniteNumber(value) || value < 0 || value > 255)
+    ) {
+      context.error(`${path}.${field}`, "expected a number from 0 to 255");
+    }
+  });
+
+  if (
+    object.lightSpecial !== undefined &&
+    !LIGHT_SPECIALS.includes(object.lightSpecial as LightSpecial)
+  ) {
+    context.error(
+      `${path}.lightSpecial`,
+      `unknown light special "${String(
+        object.lightSpecial
+      )}", expected one of ${LIGHT_SPECIALS.join(", ")}`
+    );
+  }
+}
+
+function validatePlatforms(
+  context: ValidationContext,
+  value: unknown,
+  path: string
+): void {
+  if (value === undefined) return;
+  if (!requireArray(context, value, path)) return;
+
+  value.forEach((platform, index) => {
+    const platformPath = `${path}[${index}]`;
+    if (!requireObject(context, platform, platformPath)) return;
+
+    requireNumbers(context, platform, platformPath, [
+      "x",
+      "y",
+      "z",
+      "width",
+      "depth",
+      "height",
+      "rotation",
+    ]);
+    validateTextureReference(
+      context,
+      platform.texture,
+      `${platformPath}.texture`,
+      SURFACE_TEXTURE_TYPES.blocks
+    );
+
+    if (
+      requireArray(context, platform.waypoints, `${platformPath}.waypoints`)
+    ) {
+      if (platform.waypoints.length === 0) {
+        context.error(
+          `${platformPath}.waypoints`,
+          "a platform needs at least one waypoint"
+        );
+      }
+      platform.waypoints.forEach((waypoint, waypointIndex) => {
+        validateVector(
+          context,
+          waypoint,
+          `${platformPath}.waypoints[${waypointIndex}]`
+        );
+      });
+    }
+
+    if (
+      platform.mode !== undefined &&
+      !PLATFORM_MODES.includes(platform.mode as PlatformMode)
+    ) {
+      context.error(
+        `${platformPath}.mode`,
+        `unknown platform mode "${String(
+          platform.mode
+        )}", expected one of ${PLATFORM_MODES.join(", ")}`
+      );
+    }
+
+    validateOptionalPositive(context, platform, platformPath, "speed");
+    validateOptionalPositive(context, platform, platformPath, "waitTime");
+    validateOptionalId(context, platform.id, `${platformPath}.id`, "platform");
+  });
+}
+
+function validateOptionalPositive(
+  context: ValidationContext,
+  object: JsonObject,
+  path: string,
+  field: string
+): void {
+  const value = object[field];
+  if (value !== undefined && (!isFiniteNumber(value) || value < 0)) {
+    context.error(`${path}.${field}`, "expected a non-negative number");
+  }
+}
+
+function validateDoors(
+  context: ValidationContext,
+  value: unknown,
+  path: string
+): void {
+  if (value === undefined) return;
+  if (!requireArray(context, value, path)) return;
+
+  value.forEach((door, index) => {
+    const doorPath = `${path}[${index}]`;
+    if (!requireObject(context, door, doorPath)) return;
+
+    requireNumbers(context, door, doorPath, [
+      "x",
+      "y",
+      "z",
+      "width",
+      "height",
+      "depth",
+      "rotation",
+    ]);
+    validateTextureReference(context, door.texture, `${doorPath}.texture`, [
+      "wall",
+    ]);
+
+    if (!DOOR_DIRECTIONS.includes(door.direction as DoorDirection)) {
+      context.error(
+        `${doorPath}.direction`,
+        `unknown door direction "${String(
+          door.direction
+        )}", expected one of ${DOOR_DIRECTIONS.join(", ")}`
+      );
+    }
+
+    validateOptionalPositive(context, door, doorPath, "speed");
+    validateOptionalPositive(context, door, doorPath, "waitTime");
+
+    if (
+      door.key !== undefined &&
+      !(KEY_COLORS as readonly unknown[]).includes(door.key)
+    ) {
+      context.error(
+        `${doorPath}.key`,
+        `unknown key colour "${String(
+          door.key
+        )}", expected one of ${KEY_COLORS.join(", ")}`
+      );
+    }
+
+    validateOptionalId(context, door.id, `${doorPath}.id`, "door");
+  });
+}
+
+// Ids name things for scripting, so they must be unique across the level
+function validateOptionalId(
+  context: ValidationContext,
+  value: unknown,
+  path: string,
+  kind: IdKind
+): void {
+  if (value === undefined || !requireString(context, value, path)) return;
+
+  if (context.ids.has(value)) {
+    context.error(path, `duplicate id "${value}"`);
+  }
+  context.ids.set(value, kind);
+}
+
+function withArticle(noun: string): string {
+  return `${/^[aeiou]/.test(noun) ? "an" : "a"} ${noun}`;
+}
+
+// Check that an id refers to something of the right kind defined earlier
+function validateIdReference(
+  context: ValidationContext,
+  value: unknown,
+  path: string,
+  kind: IdKind
+): void {
+  if (!requireString(context, value, path)) return;
+
+  const actualKind = context.ids.get(value);
+  if (actualKind === undefined) {
+    context.error(path, `unknown ${kind} id "${value}"`);
+  } else if (actualKind !== kind) {
+    context.error(
+      path,
+      `"${value}" is ${withArticle(actualKind)}, not ${withArticle(kind)}`
+    );
+  }
+}
+
+function validateCeilings(
+  context: ValidationContext,
+  value: unknown,
+  path: string
+): void {
+  if (value === undefined) return;
+  if (!requireArray(context, value, path)) return;
+
+  value.forEach((ceiling, index) => {
+    const ceilingPath = `${path}[${index}]`;
+    if (!requireObject(context, ceiling, ceilingPath)) return;
+
+    requireNumbers(context, ceiling, ceilingPath, [
+      "x",
+      "y",
+      "z",
+      "width",
+      "length",
+    ]);
+
+    if (ceiling.sky !== undefined && typeof ceiling.sky !== "boolean") {
+      context.error(`${ceilingPath}.sky`, "expected a boolean");
+    }
+
+    // Sky ceilings aren't drawn, so they don't need a texture
+    if (ceiling.sky !== true || ceiling.texture !== undefined) {
+      validateTextureReference(
+        context,
+        ceiling.texture,
+        `${ceilingPath}.texture`,
+        ["floor"]
+      );
+    }
+  });
+}
+
+function validateSky(context: ValidationContext, value: unknown): void {
+  if (value === undefined) return;
+  if (!requireObject(context, value, "sky")) return;
+
+  if (value.type === "cylinder") {
+    requireString(context, value.path, "sky.path");
+  } else if (value.type === "cube") {
+    if (!requireArray(context, value.paths, "sky.paths")) return;
+
+    if (value.paths.length !== 6) {
+      context.error("sky.paths", "a cube sky needs exactly 6 images");
+    }
+    value.paths.forEach((path, index) => {
+      requireString(context, path, `sky.paths[${index}]`);
+    });
+  } else {
+    context.error(
+      "sky.type",
+      `unknown sky type "${String(value.type)}", expected cylinder or cube`
+    );
+  }
+}
+
+function validateFog(context: ValidationContext, value: unknown): void {
+  if (value === undefined) return;
+  if (!requireObject(context, value, "fog")) return;
+
+  if (value.color !== undefined) {
+    requireString(context, value.color, "fog.color");
+  }
+
+  requireNumbers(context, value, "fog", ["start", "end"]);
+  if (isFiniteNumber(value.start) && value.start < 0) {
+    context.error("fog.start", "expected a non-negative number");
+  }
+  if (
+    isFiniteNumber(value.start) &&
+    isFiniteNumber(value.end) &&
+    value.end <= value.start
+  ) {
+    context.error("fog.end", "expected a number greater than fog.start");
+  }
+
+  if (
+    value.bands !== undefined &&
+    !(Number.isInteger(value.bands) && (value.bands as number) > 0)
+  ) {
+    context.error("fog.bands", "expected a positive whole number");
+  }
+}
+
+function validateSectors(
+  context: ValidationContext,
+  value: unknown,
+  path: string
+): void {
+  if (value === undefined) return;
+  if (!requireArray(context, value, path)) return;
+
+  value.forEach((sector, index) => {
+    const sectorPath = `${path}[${index}]`;
+    if (!requireObject(context, sector, sectorPath)) return;
+
+    requireNumbers(context, sector, sectorPath, [
+      "floorHeight",
+      "ceilingHeight",
+    ]);
+    if (
+      isFiniteNumber(sector.floorHeight) &&
+      isFiniteNumber(sector.ceilingHeight) &&
+      sector.ceilingHeight <= sector.floorHeight
+    ) {
+      context.error(
+        `${sectorPath}.ceilingHeight`,
+        "ceiling must be above the floor"
+      );
+    }
+
+    // Flats for both floors and ceilings come from floor textures
+    validateTextureReference(
+      context,
+      sector.floorTexture,
+      `${sectorPath}.floorTexture`,
+      ["floor"]
+    );
+    validateTextureReference(
+      context,
+      sector.ceilingTexture,
+      `${sectorPath}.ceilingTexture`,
+      ["floor"]
+    );
+
+    if (
+      sector.ceilingSky !== undefined &&
+      typeof sector.ceilingSky !== "boolean"
+    ) {
+      context.error(`${sectorPath}.ceilingSky`, "expected a boolean");
+    }
+
+    validateSectorVertices(context, sector.vertices, `${sectorPath}.vertices`);
+    validateLighting(context, sector, sectorPath);
+  });
+}
+
+function validateSectorVertices(
+  context: ValidationContext,
+  value: unknown,
+  path: string
+): void {
+  if (!requireArray(context, value, path)) return;
+
+  if (value.length < 3) {
+    context.error(path, "a sector needs at least 3 vertices");
+    return;
+  }
+
+  let valid = true;
+  value.forEach((vertex, index) => {
+    const vertexPath = `${path}[${index}]`;
+    if (!requireObject(context, vertex, vertexPath)) {
+      valid = false;
+      return;
+    }
+
+    const errorCount = context.errors.length;
+    requireNumbers(context, vertex, vertexPath, ["x", "z"]);
+    valid = valid && context.errors.length === errorCount;
+  });
+
+  if (!valid) return;
+
+  // Shoelace formula: a degenerate outline has no area to triangulate
+  const vertices = value as { x: number; z: number }[];
+  let area = 0;
+  vertices.forEach((vertex, index) => {
+    const next = vertices[(index + 1) % vertices.length];
+    area += vertex.x * next.z - next.x * vertex.z;
+  });
+
+  if (Math.abs(area) < 0.0001) {
+    context.error(path, "sector outline has no area");
+  }
+}
+
+function validateSpawnPoints(context: ValidationContext, value: unknown): void {
+  if (!requireArray(context, value, "spawnPoints")) return;
+
+  if (value.length === 0) {
+    context.error("spawnPoints", "a level needs at least one spawn point");
+    return;
+  }
+
+  // Each player has one start; deathmatch starts can be repeated
+  const playerTags = new Set<string>();
+
+  value.forEach((spawnPoint, index) => {
+    const spawnPath = `spawnPoints[${index}]`;
+    if (!requireObject(context, spawnPoint, spawnPath)) return;
+
+    requireNumbers(context, spawnPoint, spawnPath, ["x", "y", "z", "rotation"]);
+
+    if (!requireString(context, spawnPoint.tag, `${spawnPath}.tag`)) return;
+
+    const tag = spawnPoint.tag as string;
+    if (!(SPAWN_TAG_NAMES as readonly string[]).includes(tag)) {
+      context.error(
+        `${spawnPath}.tag`,
+        `unknown spawn tag "${tag}", expected one of ${SPAWN_TAG_NAMES.join(
+          ", "
+        )}`
+      );
+    } else if (tag !== "deathmatch") {
+      if (playerTags.has(tag)) {
+        context.error(`${spawnPath}.tag`, `duplicate ${tag} spawn point`);
+      }
+      playerTags.add(tag);
+    }
+  });
+}
+
+function validateLegacySpawnPoint(
+  context: ValidationContext,
+  value: unknown
+): void {
+  if (requireObject(context, value, "spawnPoint")) {
+    requireNumbers(context, value, "spawnPoint", ["x", "y", "z", "rotation"]);
+  }
+}
+
+function validateEnemies(context: ValidationContext, value: unknown): void {
+  if (value === undefined) return;
+  validateEnemyList(context, value, "enemies");
+}
+
+function validateEnemyList(
+  context: ValidationContext,
+  value: unknown,
+  path: string
+): void {
+  if (!requireArray(context, value, path)) return;
+
+  value.forEach((enemy, index) => {
+    const enemyPath = `${path}[${index}]`;
+    if (!requireObject(context, enemy, enemyPath)) return;
+
+    requireNumbers(context, enemy, enemyPath, ["x", "y", "z"]);
+
+    if (!requireString(context, enemy.type, `${enemyPath}.type`)) return;
+
+    const typeName = (enemy.type as string).toLowerCase();
+    if (!(ENEMY_TYPE_NAMES as readonly string[]).includes(typeName)) {
+      context.error(
+        `${enemyPath}.type`,
+        `unknown enemy type "${
+          enemy.type
+        }", expected one of ${ENEMY_TYPE_NAMES.join(", ")}`
+      );
+    }
+  });
+}
+
+function validateEntities(context: ValidationContext, value: unknown): void {
+  if (value === undefined) return;
+  if (!requireArray(context, value, "entities")) return;
+
+  value.forEach((entity, index) => {
+    const path = `entities[${index}]`;
+    if (!requireObject(context, entity, path)) return;
+
+    validateVector(context, entity.position, `${path}.position`);
+    if (!requireString(context, entity.type, `${path}.type`)) return;
+
+    const definition = context.entityRegistry.get(entity.type);
+    if (!definition) {
+      context.error(
+        `${path}.type`,
+        `unknown entity type "${
+          entity.type
+        }", expected one of ${context.entityRegistry.getTypeNames().join(", ")}`
+      );
+      return;
+    }
+
+    validateEntityProperties(
+      context,
+      definition,
+      entity.properties ?? {},
+      `${path}.properties`
+    );
+  });
+}
+
+// Check an entity's properties against its registered schema
+function validateEntityProperties(
+  context: ValidationContext,
+  definition: EntityDefinition,
+  value: unknown,
+  path: string
+): void {
+  if (!requireObject(context, value, path)) return;
+
+  const schema: Record<string, EntityPropertyRule> = definition.properties;
+  const errorCount = context.errors.length;
+
+  Object.keys(value).forEach((name) => {
+    if (!(name in schema)) {
+      context.error(`${path}.${name}`, "unknown property");
+    }
+  });
+
+  Object.entries(schema).forEach(([name, rule]) => {
+    const property = value[name];
+    const propertyPath = `${path}.${name}`;
+
+    if (property === undefined) {
+      if (!rule.optional) {
+        context.error(propertyPath, "missing required property");
+      }
+      return;
+    }
+
+    switch (rule.type) {
+      case "number":
+        if (!isFiniteNumber(property)) {
+          context.error(propertyPath, "expected a number");
+        }
+        break;
+      case "string":
+        requireString(context, property, propertyPath);
+        break;
+      case "boolean":
+        if (typeof property !== "boolean") {
+          context.error(propertyPath, "expected a boolean");
+        }
+        break;
+      case "vector3":
+        validateVector(context, property, propertyPath);
+        break;
+      case "size":
+        validateSize(context, property, propertyPath);
+        break;
+      case "actions":
+        validateActions(context, property, propertyPath);
+        break;
+      case "id":
+        validateOptionalId(context, property, propertyPath, "entity");
+        break;
+    }
+  });
+
+  // Cross-property rules only make sense once each property is valid
+  if (context.errors.length === errorCount && definition.check) {
+    const message = definition.check(value);
+    if (message) {
+      context.error(path, message);
+    }
+  }
+}
+
+function validateSize(
+  context: ValidationContext,
+  value: unknown,
+  path: string
+): void {
+  if (!validateVector(context, value, path)) return;
+
+  const size = value as JsonObject;
+  ["x", "y", "z"].forEach((axis) => {
+    if ((size[axis] as number) <= 0) {
+      context.error(`${path}.${axis}`, "expected a positive number");
+    }
+  });
+}
+
+function validateActions(
+  context: ValidationContext,
+  value: unknown,
+  path: string
+): void {
+  if (!requireArray(context, value, path)) return;
+
+  value.forEach((action, index) => {
+    const actionPath = `${path}[${index}]`;
+    if (!requireObject(context, action, actionPath)) return;
+
+    switch (action.type) {
+      case "openDoor":
+        validateIdReference(context, action.door, `${actionPath}.door`, "door");
+        break;
+
+      case "activatePlatform":
+        validateIdReference(
+          context,
+          action.platform,
+          `${actionPath}.platform`,
+          "platform"
+        );
+        break;
+
+      case "spawnEnemies":
+        validateEnemyList(context, action.enemies, `${actionPath}.enemies`);
+        break;
+
+      case "message":
+        requireString(context, action.text, `${actionPath}.text`);
+        validateOptionalPositive(context, action, actionPath, "duration");
+        break;
+
+      case "endLevel":
+        if (action.nextLevel !== undefined) {
+          requireString(context, action.nextLevel, `${actionPath}.nextLevel`);
+        }
+        break;
+
+      default:
+        context.error(
+          `${actionPath}.type`,
+          `unknown action type "${String(
+            action.type
+          )}", expected one of ${LEVEL_ACTION_TYPES.join(", ")}`
+        );
+    }
+  });
+}
+
+/**
+ * Check level data against the ILevel contract, with entities checked
+ * against their registered types.
+ * Returns an empty array when the level is valid.
+ */
+export function validateLevel(
+  data: unknown,
+  registry: EntityRegistry = entityRegistry
+): LevelValidationError[] {
+  const context = new ValidationContext(registry);
+
+  if (!isObject(data)) {
+    context.error("$", "level must be a JSON object");
+    return context.errors;
+  }
+
+  requireString(context, data.name, "name");
+
+  // Maps from before tagged spawn points have a single spawnPoint instead
+  if (data.spawnPoints === undefined && data.spawnPoint !== undefined) {
+    validateLegacySpawnPoint(context, data.spawnPoint);
+  } else {
+    validateSpawnPoints(context, data.spawnPoints);
+  }
+
+  // Textures first so surfaces can check their references
+  validateTextures(context, data.textures);
+  validateRooms(context, data.rooms);
+  validateSky(context, data.sky);
+  validateFog(context, data.fog);
+  validateEnemies(context, data.enemies);
+  validateEntities(context, data.entities);
+
+  return context.errors;
+}
+
+export function formatValidationErrors(errors: LevelValidationError[]): string {
+  return errors.map((error) => `  ${error.path}: ${error.message}`).join("\n");
+}
@@ -1,5 +1,17 @@
 import * as THREE from "three";
 
+// Where a moving sphere first touches something
+export interface SweepHit {
+  time: number; // Fraction of the move made at contact, 0 to 1
+  normal: THREE.Vector3; // Contact normal, pointing back at the sphere
+}
+
+// Where a ray first enters something
+export interface RayHit {
+  distance: number; // Along the ray from its origin
+  normal: THREE.Vector3; // Normal of the face the ray enters through
+}
+
 export class OrientedBoundingBox {
   public center: THREE.Vector3;
   public halfSize: THREE.Vector3;
@@ -66,6 +78,24 @@ export class OrientedBoundingBox {
     this.axes = this.computeAxes();
   }
 
+  /**
+   * The world-space axis-aligned box that encloses the OBB
+   */
+  public getBoundingBox(target: THREE.Box3 = new THREE.Box3()): THREE.Box3 {
+    // Each world axis extent sums the box axes' reach along it
+    const extent = new THREE.Vector3();
+    this.axes.forEach((axis, index) => {
+      const half = this.halfSize.getComponent(index);
+      extent.x += Math.abs(axis.x) * half;
+      extent.y += Math.abs(axis.y) * half;
+      extent.z += Math.abs(axis.z) * half;
+    });
+
+    target.min.subVectors(this.center, extent);
+    target.max.addVectors(this.center, extent);
+    return target;
+  }
+
   /**
    * Project the OBB onto an axis
    */
@@ -287,6 +317,237 @@ export class OrientedBoundingBox {
     return new THREE.Vector3().addVectors(this.center, closestLocal);
   }
 
+  /**
+   * Sweep a sphere from start to end and find where it first touches the
+   * OBB. Unlike the overlap tests this can't step over a thin box, and it
+   * handles boxes with no depth such as planes. A sphere that starts out
+   * overlapping only hits (at time 0) if it is moving further in.
+   */
+  public sweepSphere(
+    start: THREE.Vector3,
+    end: THREE.Vector3,
+    radius: number
+  ): SweepHit | null {
+    // Work in the box's local space, where it spans -halfSize..halfSize
+    const origin = this.toLocal(start);
+    const move = this.toLocal(end).sub(origin);
+
+    const startOffset = origin.clone().sub(this.clampToBox(origin));
+    if (startOffset.lengthSq() <= radius * radius) {
+      const normal =
+        startOffset.lengthSq() > 1e-8
+          ? this.toWorldDirection(startOffset.normalize())
+          : this.getMinPenetrationVector(start);
+      const movingIn = normal.dot(new THREE.Vector3().subVectors(end, start));
+      return movingIn < 0 ? { time: 0, normal } : null;
+    }
+
+    // Clip the move against the box grown by the radius on every side
+    let enter = 0;
+    let exit = 1;
+    let enterAxis = -1;
+    for (let i = 0; i < 3; i++) {
+      const extent = this.halfSize.getComponent(i) + radius;
+      const from = origin.getComponent(i);
+      const delta = move.getComponent(i);
+
+      if (Math.abs(delta) < 1e-9) {
+        if (Math.abs(from) > extent) return null;
+        continue;
+      }
+
+      const near = (Math.sign(-delta) * extent - from) / delta;
+      const far = (Math.sign(delta) * extent - from) / delta;
+      if (near > enter) {
+        enter = near;
+        enterAxis = i;
+      }
+      exit = Math.min(exit, far);
+      if (enter > exit) return null;
+    }
+
+    // The grown box has square edges and corners where the real shape is
+    // rounded. Entering through a face is a hit; entering near an edge or
+    // corner, the sphere has to clear the rounding first.
+    const entry = origin.clone().addScaledVector(move, enter);
+    const outside = [0, 1, 2].filter(
+      (i) => Math.abs(entry.getComponent(i)) > this.halfSize.getComponent(i)
+    );
+
+    if (outside.length <= 1 && enterAxis !== -1) {
+      // Facing against the move, which also works for a box with no depth
+      const sign = -Math.sign(move.getComponent(enterAxis));
+      return {
+        time: enter,
+        normal: this.axes[enterAxis].clone().multiplyScalar(sign),
+      };
+    }
+
+    // The corner of the region we entered, on the axes we're outside of
+    const corner = new THREE.Vector3();
+    outside.forEach((i) =>
+      corner.setComponent(
+        i,
+        Math.sign(entry.getComponent(i)) * this.halfSize.getComponent(i)
+      )
+    );
+
+    // Near an edge, test that edge; near a corner, the three edges meeting there
+    const edgeAxes =
+      outside.length === 2
+        ? [0, 1, 2].filter((i) => !outside.includes(i))
+        : outside;
+    let time: number | null = null;
+    for (const axis of edgeAxes) {
+      const edgeTime = this.sweepSphereAgainstEdge(
+        origin,
+        move,
+        corner,
+        axis,
+        radius
+      );
+      if (edgeTime !== null && (time === null || edgeTime < time)) {
+        time = edgeTime;
+      }
+    }
+    if (time === null) return null;
+
+    const contact = origin.clone().addScaledVector(move, time);
+    const normal = contact.sub(this.clampToBox(contact)).normalize();
+    return { time, normal: this.toWorldDirection(normal) };
+  }
+
+  /**
+   * Find where a ray first enters the OBB, within maxDistance. The direction
+   * must be normalized. A ray that starts inside the box doesn't hit it, so
+   * rays can be cast out of things.
+   */
+  public intersectRay(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    maxDistance: number
+  ): RayHit | null {
+    const localOrigin = this.toLocal(origin);
+    const localDirection = new THREE.Vector3(
+      direction.dot(this.axes[0]),
+      direction.dot(this.axes[1]),
+      direction.dot(this.axes[2])
+    );
+
+    let enter = 0;
+    let exit = maxDistance;
+    let enterAxis = -1;
+    for (let i = 0; i < 3; i++) {
+      const extent = this.halfSize.getComponent(i);
+      const from = localOrigin.getComponent(i);
+      const delta = localDirection.getComponent(i);
+
+      if (Math.abs(delta) < 1e-9) {
+        if (Math.abs(from) > extent) return null;
+        continue;
+      }
+
+      const near = (Math.sign(-delta) * extent - from) / delta;
+      const far = (Math.sign(delta) * extent - from) / delta;
+      if (near > enter) {
+        enter = near;
+        enterAxis = i;
+      }
+      exit = Math.min(exit, far);
+      if (enter > exit) return null;
+    }
+
+    if (enterAxis === -1) return null; // Started inside
+
+    const sign = -Math.sign(localDirection.getComponent(enterAxis));
+    return {
+      distance: enter,
+      normal: this.axes[enterAxis].clone().multiplyScalar(sign),
+    };
+  }
+
+  // Earliest contact between a moving sphere and the box edge through
+  // corner along axis, in local space: a capsule of the sphere's radius
+  private sweepSphereAgainstEdge(
+    origin: THREE.Vector3,
+    move: THREE.Vector3,
+    corner: THREE.Vector3,
+    axis: number,
+    radius: number
+  ): number | null {
+    const half = this.halfSize.getComponent(axis);
+
+    // The capsule's side, ignoring movement along the edge
+    const sideTime = OrientedBoundingBox.firstContact(
+      origin.clone().sub(corner).setComponent(axis, 0),
+      move.clone().setComponent(axis, 0),
+      radius
+    );
+    if (
+      sideTime !== null &&
+      Math.abs(
+        origin.getComponent(axis) + sideTime * move.getComponent(axis)
+      ) <= half
+    ) {
+      return sideTime;
+    }
+
+    // Missed the side: try the rounded ends
+    let time: number | null = null;
+    for (const end of [-half, half]) {
+      const endTime = OrientedBoundingBox.firstContact(
+        origin.clone().sub(corner.clone().setComponent(axis, end)),
+        move,
+        radius
+      );
+      if (endTime !== null && (time === null || endTime < time)) {
+        time = endTime;
+      }
+    }
+    return time;
+  }
+
+  // Earliest time in 0..1 at which a point starting at offset and moving by
+  // velocity comes within radius of the origin
+  private static firstContact(
+    offset: THREE.Vector3,
+    velocity: THREE.Vector3,
+    radius: number
+  ): number | null {
+    const a = velocity.lengthSq();
+    if (a < 1e-12) return null;
+
+    const b = offset.dot(velocity);
+    const c = offset.lengthSq() - radius * radius;
+    const discriminant = b * b - a * c;
+    if (discriminant < 0) return null;
+
+    const time = (-b - Math.sqrt(discriminant)) / a;
+    return time >= 0 && time <= 1 ? time : null;
+  }
+
+  // A world point in the box's local frame
+  private toLocal(point: THREE.Vector3): THREE.Vector3 {
+    const offset = new THREE.Vector3().subVectors(point, this.center);
+    return new THREE.Vector3(
+      offset.dot(this.axes[0]),
+      offset.dot(this.axes[1]),
+      offset.dot(this.axes[2])
+    );
+  }
+
+  private toWorldDirection(local: THREE.Vector3): THREE.Vector3 {
+    return new THREE.Vector3()
+      .addScaledVector(this.axes[0], local.x)
+      .addScaledVector(this.axes[1], local.y)
+      .addScaledVector(this.axes[2], local.z);
+  }
+
+  // Closest point of the box to a local point, in local space
+  private clampToBox(local: THREE.Vector3): THREE.Vector3 {
+    return local.clone().clamp(this.halfSize.clone().negate(), this.halfSize);
+  }
+
   /**
    * Get the normal vector at a specific point on the OBB's surface
    * This is an approximation and works best for points exactly on the surface
@@ -0,0 +1,175 @@
+import * as THREE from "three";
+import { PickupTypeName } from "../types/level";
+import { Player } from "./player";
+import { applyDistanceFog } from "./distanceFog";
+
+export interface PickupDefinition {
+  spritePath: string;
+  color: number; // Shown until the sprite loads, or if it's missing
+  message: string;
+  give: (player: Player) => boolean; // False if the player can't use it yet
+}
+
+// Bonuses stack past the usual maximums, as in Doom
+const BONUS_LIMIT = 200;
+
+export const PICKUP_DEFINITIONS: Record<PickupTypeName, PickupDefinition> = {
+  healthBonus: {
+    spritePath: "/pickups/healthBonus.png",
+    color: 0x3060ff,
+    message: "Picked up a health bonus.",
+    give: (player) => player.heal(1, BONUS_LIMIT),
+  },
+  stimpack: {
+    spritePath: "/pickups/stimpack.png",
+    color: 0xffffff,
+    message: "Picked up a stimpack.",
+    give: (player) => player.heal(10),
+  },
+  medikit: {
+    spritePath: "/pickups/medikit.png",
+    color: 0xff3030,
+    message: "Picked up a medikit.",
+    give: (player) => player.heal(25),
+  },
+  armorBonus: {
+    spritePath: "/pickups/armorBonus.png",
+    color: 0x30c030,
+    message: "Picked up an armor bonus.",
+    give: (player) => player.addArmor(1, BONUS_LIMIT),
+  },
+  greenArmor: {
+    spritePath: "/pickups/greenArmor.png",
+    color: 0x00ff00,
+    message: "Picked up the armor.",
+    give: (player) => player.upgradeArmor(100),
+  },
+  blueArmor: {
+    spritePath: "/pickups/blueArmor.png",
+    color: 0x0000ff,
+    message: "Picked up the MegaArmor!",
+    give: (player) => player.upgradeArmor(200),
+  },
+  clip: {
+    spritePath: "/pickups/clip.png",
+    color: 0xc0a060,
+    message: "Picked up a clip.",
+    give: (player) => player.addAmmo("bullets", 10),
+  },
+  ammoBox: {
+    spritePath: "/pickups/ammoBox.png",
+    color: 0xa08040,
+    message: "Picked up a box of bullets.",
+    give: (player) => player.addAmmo("bullets", 50),
+  },
+  shells: {
+    spritePath: "/pickups/shells.png",
+    color: 0xff8000,
+    message: "Picked up 4 shotgun shells.",
+    give: (player) => player.addAmmo("shells", 4),
+  },
+  shellBox: {
+    spritePath: "/pickups/shellBox.png",
+    color: 0xc06000,
+    message: "Picked up a box of shotgun shells.",
+    give: (player) => player.addAmmo("shells", 20),
+  },
+  redKeycard: {
+    spritePath: "/pickups/redKeycard.png",
+    color: 0xff0000,
+    message: "Picked up a red keycard.",
+    give: (player) => player.addKey("red"),
+  },
+  blueKeycard: {
+    spritePath: "/pickups/blueKeycard.png",
+    color: 0x0060ff,
+    message: "Picked up a blue keycard.",
+    give: (player) => player.addKey("blue"),
+  },
+  yellowKeycard: {
+    spritePath: "/pickups/yellowKeycard.png",
+    color: 0xffff00,
+    message: "Picked up a yellow keycard.",
+    give: (player) => player.addKey("yellow"),
+  },
+};
+
+const SPRITE_SIZE = 1;
+const HOVER_HEIGHT = 0.5; // Sprite centre above the pickup's floor position
+const BOB_HEIGHT = 0.15;
+const BOB_SPEED = 0.003; // Radians per ms
+
+export class Pickup {
+  public type: PickupTypeName;
+  public sprite: THREE.Sprite;
+  public isActive: boolean = true;
+  public respawnTimer: number = 0; // ms until a collected pickup returns
+
+  private basePosition: THREE.Vector3;
+  private bobPhase: number;
+
+  constructor(position: THREE.Vector3, type: PickupTypeName) {
+    this.type = type;
+    this.basePosition = position.clone();
+    this.basePosition.y += HOVER_HEIGHT;
+
+    const definition = PICKUP_DEFINITIONS[type];
+    const material = new THREE.SpriteMaterial({ color: definition.color });
+    applyDistanceFog(material);
+    new THREE.TextureLoader().load(
+      definition.spritePath,
+      (texture) => {
+        // Keep the small pixel-art sprites crisp up close
+        texture.magFilter = THREE.NearestFilter;
+        material.map = texture;
+        material.color.set(0xffffff);
+        material.needsUpdate = true;
+      },
+      undefined,
+      () => {
+        // The pickup still works, drawn as a plain square in its color
+        console.warn(
+          `Missing sprite for ${type} pickup: ${definition.spritePath}`
+        );
+      }
+    );
+
+    this.sprite = new THREE.Sprite(material);
+    this.sprite.scale.set(SPRITE_SIZE, SPRITE_SIZE, 1);
+    this.sprite.position.copy(this.basePosition);
+
+    // Offset each pickup's bob so rows of items don't move in lockstep
+    this.bobPhase = Math.random() * Math.PI * 2;
+  }
+
+  public getDefinition(): PickupDefinition {
+    return PICKUP_DEFINITIONS[this.type];
+  }
+
+  public getPosition(): THREE.Vector3 {
+    return this.basePosition;
+  }
+
+  public update(deltaTime: number): void {
+    this.bobPhase += deltaTime * BOB_SPEED;
+    this.sprite.position.y =
+      this.basePosition.y + Math.sin(this.bobPhase) * BOB_HEIGHT;
+  }
+
+  public collect(): void {
+    this.isActive = false;
+    this.sprite.visible = false;
+  }
+
+  public respawn(): void {
+    this.isActive = true;
+    this.sprite.visible = true;
+    this.respawnTimer = 0;
+  }
+
+  public dispose(): void {
+    const material = this.sprite.material;
+    material.map?.dispose();
+    material.dispose();
+  }
+}
@@ -0,0 +1,92 @@
+import * as THREE from "three";
+import { Pickup } from "./pickup";
+import { Player } from "./player";
+import { LevelEvents } from "./levelEvents";
+import { GameMode } from "../types/game";
+import { PickupTypeName } from "../types/level";
+
+export interface PickupSpawnPoint {
+  position: THREE.Vector3;
+  type: PickupTypeName;
+}
+
+// How close the player's eye must come to a pickup to grab it
+const PICKUP_RANGE = 2;
+
+// Deathmatch items come back after this long (ms); other modes keep them gone
+const DEATHMATCH_RESPAWN_TIME = 30000;
+
+export class PickupManager {
+  private pickups: Pickup[] = [];
+  private scene: THREE.Scene;
+  private events: LevelEvents;
+  private gameMode: GameMode;
+
+  constructor(scene: THREE.Scene, events: LevelEvents, gameMode: GameMode) {
+    this.scene = scene;
+    this.events = events;
+    this.gameMode = gameMode;
+  }
+
+  public spawnPickup(position: THREE.Vector3, type: PickupTypeName): Pickup {
+    const pickup = new Pickup(position, type);
+    this.scene.add(pickup.sprite);
+    this.pickups.push(pickup);
+    return pickup;
+  }
+
+  public spawnPickupsFromPoints(spawnPoints: PickupSpawnPoint[]): void {
+    spawnPoints.forEach((spawnPoint) => {
+      this.spawnPickup(spawnPoint.position, spawnPoint.type);
+    });
+  }
+
+  public update(deltaTime: number, player: Player): void {
+    const playerPosition = player.getPosition();
+
+    this.pickups.forEach((pickup) => {
+      if (!pickup.isActive) {
+        if (pickup.respawnTimer > 0) {
+          pickup.respawnTimer -= deltaTime;
+          if (pickup.respawnTimer <= 0) {
+            pickup.respawn();
+          }
+        }
+        return;
+      }
+
+      pickup.update(deltaTime);
+
+      if (pickup.getPosition().distanceTo(playerPosition) > PICKUP_RANGE) {
+        return;
+      }
+
+      // Leave it lying there if the player is already topped up
+      const definition = pickup.getDefinition();
+      if (!definition.give(player)) return;
+
+      pickup.collect();
+      if (this.gameMode === "deathmatch") {
+        pickup.respawnTimer = DEATHMATCH_RESPAWN_TIME;
+      }
+
+      this.events.emit("pickup", { pickup });
+      this.events.emit("message", {
+        text: definition.message,
+        duration: 2000,
+      });
+    });
+  }
+
+  public getPickups(): Pickup[] {
+    return this.pickups;
+  }
+
+  public clearPickups(): void {
+    this.pickups.forEach((pickup) => {
+      this.scene.remove(pickup.sprite);
+      pickup.dispose();
+    });
+    this.pickups = [];
+  }
+}
@@ -0,0 +1,107 @@
+import * as THREE from "three";
+import { Collidable } from "./collision";
+import { OrientedBoundingBox } from "./orientedBoundingBox";
+import { PlatformMode } from "../types/level";
+
+/**
+ * A solid box that travels between stops. Anything standing on it reads
+ * getDisplacement() after each update to ride along.
+ */
+export class Platform implements Collidable {
+  public id: string | null;
+  public mesh: THREE.Mesh;
+  public mode: PlatformMode;
+  public speed: number; // Units per second
+  public waitTime: number; // ms spent at each stop
+
+  private obb: OrientedBoundingBox;
+  private stops: THREE.Vector3[]; // Mesh positions, the first is the start
+  private currentStop: number = 0;
+  private queue: number[] = []; // Stops still to visit, in order
+  private waitTimer: number = 0;
+  private displacement: THREE.Vector3 = new THREE.Vector3();
+
+  constructor(
+    mesh: THREE.Mesh,
+    stops: THREE.Vector3[],
+    mode: PlatformMode = "loop",
+    id: string | null = null,
+    speed: number = 2,
+    waitTime: number = 2000
+  ) {
+    this.id = id;
+    this.mesh = mesh;
+    this.mode = mode;
+    this.speed = speed;
+    this.waitTime = waitTime;
+    this.stops = [mesh.position.clone(), ...stops];
+    this.obb = OrientedBoundingBox.fromMesh(mesh);
+  }
+
+  public getBoundingBox(): THREE.Box3 {
+    return new THREE.Box3().setFromObject(this.mesh);
+  }
+
+  public getOrientedBoundingBox(): OrientedBoundingBox {
+    this.obb.update(this.mesh);
+    return this.obb;
+  }
+
+  // How far the platform moved during the last update
+  public getDisplacement(): THREE.Vector3 {
+    return this.displacement;
+  }
+
+  public isMoving(): boolean {
+    return this.queue.length > 0 && this.waitTimer <= 0;
+  }
+
+  /**
+   * Start a triggered platform's trip: out through its stops and back to
+   * the start, like a Doom lift. Returns false if it's already travelling.
+   */
+  public activate(): boolean {
+    if (this.mode !== "trigger" || this.queue.length > 0) return false;
+    if (this.stops.length < 2) return false;
+
+    for (let i = 1; i < this.stops.length; i++) {
+      this.queue.push(i);
+    }
+    for (let i = this.stops.length - 2; i >= 0; i--) {
+      this.queue.push(i);
+    }
+    this.waitTimer = 0;
+    return true;
+  }
+
+  public update(deltaTime: number): void {
+    this.displacement.set(0, 0, 0);
+
+    if (this.waitTimer > 0) {
+      this.waitTimer -= deltaTime;
+      return;
+    }
+
+    if (this.queue.length === 0) {
+      // Looping platforms cycle through their stops forever
+      if (this.mode !== "loop" || this.stops.length < 2) return;
+      this.queue.push((this.currentStop + 1) % this.stops.length);
+    }
+
+    const previousPosition = this.mesh.position.clone();
+    const target = this.stops[this.queue[0]];
+    const toTarget = target.clone().sub(this.mesh.position);
+    const maxStep = (this.speed * deltaTime) / 1000;
+
+    if (toTarget.length() <= maxStep) {
+      // Arrived: wait here before heading to the next stop
+      this.mesh.position.copy(target);
+      this.currentStop = this.queue.shift()!;
+      this.waitTimer = this.waitTime;
+    } else {
+      this.mesh.position.addScaledVector(toTarget.normalize(), maxStep);
+    }
+
+    this.displacement.subVectors(this.mesh.position, previousPosition);
+  }
+}
@@ -0,0 +1,55 @@
+import { Platform } from "./platform";
+import { CollisionSystem } from "./collision";
+import { Player } from "./player";
+import { findUsableInFront, USE_RANGE } from "./interaction";
+
+export class PlatformManager {
+  private platforms: Platform[];
+
+  constructor(platforms: Platform[]) {
+    this.platforms = platforms;
+  }
+
+  // Move platforms before anything that might be riding them updates
+  public update(deltaTime: number): void {
+    this.platforms.forEach((platform) => platform.update(deltaTime));
+  }
+
+  /**
+   * Activate the triggered platform in front of the player, if any
+   */
+  public tryUse(
+    player: Player,
+    collisionSystem: CollisionSystem
+  ): Platform | null {
+    const usable = this.platforms.filter(
+      (platform) => platform.mode === "trigger"
+    );
+    const platform = findUsableInFront(
+      usable,
+      (item) => item,
+      player.getPosition(),
+      player.getDirection(),
+      USE_RANGE,
+      collisionSystem
+    );
+
+    if (platform) {
+      platform.activate();
+    }
+    return platform;
+  }
+
+  public activateById(id: string): boolean {
+    const platform = this.getPlatformById(id);
+    return platform ? platform.activate() : false;
+  }
+
+  public getPlatforms(): Platform[] {
+    return this.platforms;
+  }
+
+  public getPlatformById(id: string): Platform | null {
+    return this.platforms.find((platform) => platform.id === id) ?? null;
+  }
+}
@@ -1,8 +1,25 @@
 import * as THREE from "three";
 import { InputManager, Key } from "./input";
 import { CollisionSystem } from "./collision";
-import { IPosition } from "../types/level";
+import { IPosition, KeyColor } from "../types/level";
 import { Enemy } from "./enemy";
+import { Platform } from "./platform";
+
+export type AmmoType = "bullets" | "shells";
+
+// Eye position, yaw and camera pitch
+export interface PlayerPose {
+  position: THREE.Vector3;
+  yaw: number;
+  pitch: number;
+}
+
+// Which ammo each weapon fires
+const WEAPON_AMMO: Record<string, AmmoType> = {
+  pistol: "bullets",
+  shotgun: "shells",
+  chaingun: "bullets",
+};
 
 export class Player {
   private camera: THREE.PerspectiveCamera;
@@ -19,6 +36,9 @@ export class Player {
   private maxHealth: number = 100;
   private armor: number = 0;
   private maxArmor: number = 100;
+  private ammo: Record<AmmoType, number> = { bullets: 50, shells: 8 };
+  private maxAmmo: Record<AmmoType, number> = { bullets: 200, shells: 50 };
+  private keys: Set<KeyColor> = new Set(); // Keycards collected this level
   private lastDamageTime: number = 0;
   private damageInvulnerabilityTime: number = 500; // ms
   private isDead: boolean = false;
@@ -38,6 +58,7 @@ export class Player {
   private isOnGround: boolean = false;
   private standingHeight: number = 1.5; // Eye level height when standing
   private playerHeight: number = 3.0; // Total height of player for ground detection
+  private groundClearance: number = 0.01; // Keeps the collision sphere off the ground we stand on
   private lastJumpTime: number = 0;
   private jumpCooldown: number = 200; // ms - prevent jump spamming
 
@@ -147,6 +168,8 @@ export class Player {
       depthWrite: false,
       // Add these properties to reduce brightness:
       color: new THREE.Color(0xaaaaaa),
+      // The weapon is in the player's hands, never in the distance
+      fog: false,
     });
 
     this.weaponImage = new THREE.Mesh(geometry, material);
@@ -253,6 +276,17 @@ export class Player {
     );
 
     if (!collisionInfo.collision) {
+      // A long step can carry the player clean over a thin wall, so stop
+      // where the move first touches something
+      const sweep = collisionSystem.sweepSphere(
+        originalPosition,
+        newPosition,
+        this.collisionRadius
+      );
+      if (sweep) {
+        newPosition.copy(sweep.position);
+      }
+
       // No collision, move freely (but only update x and z)
       this.cameraHolder.position.x = newPosition.x;
       this.cameraHolder.position.z = newPosition.z;
@@ -291,7 +325,7 @@ export class Player {
         slidingPosition.z += projectedMove.z;
 
         if (
-          !collisionSystem.checkCollision(slidingPosition, this.collisionRadius)
+          this.canMoveTo(collisionSystem, originalPosition, slidingPosition)
         ) {
           // Sliding successful
           this.cameraHolder.position.x = slidingPosition.x;
@@ -346,12 +380,24 @@ export class Player {
       this.playerHeight
     );
 
+    // Ride along with a moving platform we're standing on
+    if (
+      this.isOnGround &&
+      groundCheck.collidable instanceof Platform &&
+      groundCheck.normal !== null &&
+      groundCheck.normal.y > 0.7
+    ) {
+      this.rideWith(groundCheck.collidable, collisionSystem);
+      currentPosition.copy(this.cameraHolder.position);
+    }
+
     // Handle ground collision
     if (groundCheck.collision && groundCheck.groundY !== null) {
       // Only consider it ground if we're moving downward or already on ground
       if (this.verticalVelocity <= 0) {
         // Calculate the appropriate Y position (feet at ground level)
-        const targetY = groundCheck.groundY + this.standingHeight;
+        const targetY =
+          groundCheck.groundY + this.standingHeight + this.groundClearance;
 
         // If we're close to the ground or below it
         if (currentPosition.y <= targetY + 0.1) {
@@ -389,8 +435,21 @@ export class Player {
       }
     }
 
-    // Apply vertical movement
-    this.cameraHolder.position.y += this.verticalVelocity * dt;
+    // Apply vertical movement, stopping at anything in the way so a fast
+    // fall or jump can't pass through a thin floor or ceiling
+    const verticalTarget = this.cameraHolder.position.clone();
+    verticalTarget.y += this.verticalVelocity * dt;
+    const verticalSweep = collisionSystem.sweepSphere(
+      this.cameraHolder.position,
+      verticalTarget,
+      this.collisionRadius
+    );
+    if (verticalSweep) {
+      this.cameraHolder.position.y = verticalSweep.position.y;
+      this.verticalVelocity = 0;
+    } else {
+      this.cameraHolder.position.y = verticalTarget.y;
+    }
 
     // Terminal velocity limit to prevent falling too fast
     const terminalVelocity = -0.5;
@@ -407,6 +466,20 @@ export class Player {
     }
   }
 
+  // Carry the player by the platform's last move, unless a wall is in the way
+  private rideWith(platform: Platform, collisionSystem: CollisionSystem): void {
+    const displacement = platform.getDisplacement();
+    const carried = this.cameraHolder.position.clone().add(displacement);
+
+    this.cameraHolder.position.y = carried.y;
+    if (
+      !collisionSystem.checkCollision(carried, this.collisionRadius, platform)
+    ) {
+      this.cameraHolder.position.x = carried.x;
+      this.cameraHolder.position.z = carried.z;
+    }
+  }
+
   // New method to try stepping up
   private tryStepUp(
     collisionSystem: CollisionSystem,
@@ -439,7 +512,8 @@ export class Player {
 
     // If we found ground and it's within step height range
     if (groundCheck.collision && groundCheck.groundY !== null) {
-      const groundHeight = groundCheck.groundY + this.standingHeight;
+      const groundHeight =
+        groundCheck.groundY + this.standingHeight + this.groundClearance;
       const heightDifference = groundHeight - originalPosition.y;
 
       // Only climb if the step is within our climb range
@@ -498,6 +572,19 @@ export class Player {
     );
   }
 
+  // Whether the player fits at `to` and can get there from `from` without
+  // passing through anything
+  private canMoveTo(
+    collisionSystem: CollisionSystem,
+    from: THREE.Vector3,
+    to: THREE.Vector3
+  ): boolean {
+    return (
+      !collisionSystem.checkCollision(to, this.collisionRadius) &&
+      !collisionSystem.sweepSphere(from, to, this.collisionRadius)
+    );
+  }
+
   private findBestSlidingDirection(
     startPos: THREE.Vector3,
     moveVector: THREE.Vector3,
@@ -533,8 +620,8 @@ export class Player {
       testPos.x += rotatedDir.x;
       testPos.z += rotatedDir.z;
 
-      // Skip if collision at this position
-      if (collisionSystem.checkCollision(testPos, this.collisionRadius)) {
+      // Skip if collision at this position or on the way there
+      if (!this.canMoveTo(collisionSystem, startPos, testPos)) {
         continue;
       }
 
@@ -581,6 +668,33 @@ export class Player {
     return this.cameraHolder.position.clone();
   }
 
+  /**
+   * Where the player is and which way they look, so they can be put back
+   * after the level is rebuilt around them
+   */
+  public getPose(): PlayerPose {
+    return {
+      position: this.cameraHolder.position.clone(),
+      yaw: this.cameraHolder.rotation.y,
+      pitch: this.cameraPitch.rotation.x,
+    };
+  }
+
+  public setPose(pose: PlayerPose): void {
+    this.cameraHolder.position.copy(pose.position);
+    this.cameraHolder.rotation.y = pose.yaw;
+    this.cameraPitch.rotation.x = pose.pitch;
+
+    // Fall onto whatever is below now
+    this.verticalVelocity = 0;
+    this.isOnGround = false;
+    this.isClimbing = false;
+  }
+
+  public getCollisionRadius(): number {
+    return this.collisionRadius;
+  }
+
   public getDirection(): THREE.Vector3 {
     // Get the actual camera direction based on both yaw and pitch
     const direction = new THREE.Vector3(0, 0, -1);
@@ -636,13 +750,19 @@ export class Player {
     return this.isDead;
   }
 
-  public shoot(enemies: Enemy[]): void {
+  public shoot(enemies: Enemy[], collisionSystem: CollisionSystem): void {
     const currentTime = Date.now();
     if (currentTime - this.lastShotTime < this.shootCooldown) {
       return; // Can't shoot yet
     }
 
+    const ammoType = WEAPON_AMMO[this.currentWeapon];
+    if (this.ammo[ammoType] <= 0) {
+      return; // Out of ammo
+    }
+
     this.lastShotTime = currentTime;
+    this.ammo[ammoType]--;
 
     if (this.weaponImage) {
       const recoilAmount = 0.05;
@@ -659,6 +779,14 @@ export class Player {
     const raycaster = new THREE.Raycaster();
     raycaster.setFromCamera(new THREE.Vector2(0, 0), this.camera); // Center of screen
 
+    // Shots stop at the first wall, door or floor in the way
+    const wallHit = collisionSystem.raycast(
+      this.cameraHolder.position,
+      this.getDirection(),
+      this.weaponRange
+    );
+    const shotRange = wallHit ? wallHit.distance : this.weaponRange;
+
     type TClosestHit = { distance: number; enemy: Enemy } | null;
     // Check for hits
     let closestHit: TClosestHit = null;
@@ -692,7 +820,7 @@ export class Player {
       const distance = closestPoint.distanceTo(enemyPosition);
 
       // If within range, consider it a hit
-      if (distance < 1.0 && projection < this.weaponRange) {
+      if (distance < 1.0 && projection < shotRange) {
         // If this is the closest hit so far, record it
         if (!closestHit || projection < closestHit.distance) {
           closestHit = {
@@ -713,12 +841,65 @@ export class Player {
     }
   }
 
-  public heal(amount: number): void {
-    this.health = Math.min(this.health + amount, this.maxHealth);
+  /**
+   * Add health up to a limit (bonuses can go past the normal maximum).
+   * Returns false if the player is already at the limit.
+   */
+  public heal(amount: number, limit: number = this.maxHealth): boolean {
+    if (this.health >= limit) return false;
+
+    this.health = Math.min(this.health + amount, limit);
+    return true;
+  }
+
+  public addArmor(amount: number, limit: number = this.maxArmor): boolean {
+    if (this.armor >= limit) return false;
+
+    this.armor = Math.min(this.armor + amount, limit);
+    return true;
+  }
+
+  // Armor suits replace weaker armor but never lower what the player has
+  public upgradeArmor(points: number): boolean {
+    if (this.armor >= points) return false;
+
+    this.armor = points;
+    return true;
+  }
+
+  public addAmmo(type: AmmoType, amount: number): boolean {
+    if (this.ammo[type] >= this.maxAmmo[type]) return false;
+
+    this.ammo[type] = Math.min(this.ammo[type] + amount, this.maxAmmo[type]);
+    return true;
+  }
+
+  public getAmmo(type: AmmoType): number {
+    return this.ammo[type];
+  }
+
+  public addKey(color: KeyColor): boolean {
+    if (this.keys.has(color)) return false;
+
+    this.keys.add(color);
+    return true;
+  }
+
+  public hasKey(color: KeyColor): boolean {
+    return this.keys.has(color);
+  }
+
+  public getKeys(): KeyColor[] {
+    return Array.from(this.keys);
+  }
+
+  // Keycards only open doors on the level they were found on
+  public clearKeys(): void {
+    this.keys.clear();
   }
 
-  public addArmor(amount: number): void {
-    this.armor = Math.min(this.armor + amount, this.maxArmor);
+  public getCurrentAmmo(): number {
+    return this.ammo[WEAPON_AMMO[this.currentWeapon]];
   }
 
   public getHealth(): number {
@@ -1,4 +1,6 @@
 import * as THREE from "three";
+import { IFog } from "../types/level";
+import { createDistanceFog } from "./distanceFog";
 
 export class Renderer {
   private scene: THREE.Scene;
@@ -33,6 +35,16 @@ export class Renderer {
     window.addEventListener("resize", this.onWindowResize.bind(this));
   }
 
+  // Show a texture (e.g. a cube sky) behind the scene, or the default colour
+  public setBackground(background: THREE.Texture | null): void {
+    this.scene.background = background ?? new THREE.Color(0x000000);
+  }
+
+  // Fade the world into the distance, or clear the fog with null
+  public setFog(fog: IFog | null): void {
+    this.scene.fog = createDistanceFog(fog);
+  }
+
   public addObject(object: THREE.Object3D): void {
     this.scene.add(object);
   }
@@ -45,6 +57,11 @@ export class Renderer {
     this.renderer.render(this.scene, this.camera);
   }
 
+  // Draw calls issued by the last rendered frame
+  public getDrawCalls(): number {
+    return this.renderer.info.render.calls;
+  }
+
   public createConsistentTexture(path: string): THREE.Texture {
     const loader = new THREE.TextureLoader();
     const texture = loader.load(path);
@@ -0,0 +1,134 @@
+import * as THREE from "three";
+import { LightSpecial } from "../types/level";
+
+// Doom runs its light specials in tics of 1/35 s
+const TIC = 1000 / 35;
+
+const STROBE_BRIGHT_TIME = 5 * TIC;
+const STROBE_DARK_TIME = 35 * TIC;
+const FLICKER_MAX_BRIGHT_TIME = 64 * TIC;
+const FLICKER_MAX_DARK_TIME = 8 * TIC;
+const GLOW_SPEED = 8 / TIC; // Light units per ms
+const PULSE_PERIOD = 2000; // ms
+
+// How far specials dim below the room's level when no minimum is given
+const DEFAULT_DIM_AMOUNT = 128;
+
+type LitMaterial = THREE.Material & { color: THREE.Color };
+
+/**
+ * A Doom-style light level (0-255) shared by every surface of a room or
+ * sector, optionally animated by a light special. Surfaces use unlit
+ * materials, so the level is applied as the material colour.
+ */
+export class RoomLight {
+  public readonly level: number;
+  public readonly minLevel: number;
+  public readonly special: LightSpecial | null;
+
+  private materials: LitMaterial[] = [];
+  private currentLevel: number;
+  private timer: number = 0; // ms until the next strobe/flicker change
+  private isBright: boolean = true;
+  private glowDirection: number = -1;
+  private elapsed: number = 0;
+
+  constructor(
+    level: number = 255,
+    special: LightSpecial | null = null,
+    minLevel?: number
+  ) {
+    this.level = level;
+    this.special = special;
+    this.minLevel = Math.min(
+      minLevel ?? Math.max(0, level - DEFAULT_DIM_AMOUNT),
+      level
+    );
+    this.currentLevel = level;
+  }
+
+  public addMaterial(material: LitMaterial): void {
+    this.materials.push(material);
+    this.applyLevel(material);
+  }
+
+  public getCurrentLevel(): number {
+    return this.currentLevel;
+  }
+
+  public update(deltaTime: number): void {
+    if (!this.special) return;
+
+    const previousLevel = this.currentLevel;
+
+    switch (this.special) {
+      case "flicker":
+        this.updateFlicker(deltaTime);
+        break;
+      case "strobe":
+        this.updateStrobe(deltaTime);
+        break;
+      case "glow":
+        this.updateGlow(deltaTime);
+        break;
+      case "pulse":
+        this.updatePulse(deltaTime);
+        break;
+    }
+
+    if (this.currentLevel !== previousLevel) {
+      this.materials.forEach((material) => this.applyLevel(material));
+    }
+  }
+
+  // Random bright spells broken by short dark blinks, like a failing bulb
+  private updateFlicker(deltaTime: number): void {
+    this.timer -= deltaTime;
+    if (this.timer > 0) return;
+
+    this.isBright = !this.isBright;
+    this.currentLevel = this.isBright ? this.level : this.minLevel;
+    this.timer =
+      Math.random() *
+      (this.isBright ? FLICKER_MAX_BRIGHT_TIME : FLICKER_MAX_DARK_TIME);
+  }
+
+  // A short flash at regular intervals
+  private updateStrobe(deltaTime: number): void {
+    this.timer -= deltaTime;
+    if (this.timer > 0) return;
+
+    this.isBright = !this.isBright;
+    this.currentLevel = this.isBright ? this.level : this.minLevel;
+    this.timer = this.isBright ? STROBE_BRIGHT_TIME : STROBE_DARK_TIME;
+  }
+
+  // Fade steadily down to the minimum and back up
+  private updateGlow(deltaTime: number): void {
+    let level = this.currentLevel + this.glowDirection * GLOW_SPEED * deltaTime;
+
+    if (level <= this.minLevel) {
+      level = this.minLevel;
+      this.glowDirection = 1;
+    } else if (level >= this.level) {
+      level = this.level;
+      this.glowDirection = -1;
+    }
+
+    this.currentLevel = level;
+  }
+
+  // A smooth sine-wave swell between the minimum and full level
+  private updatePulse(deltaTime: number): void {
+    this.elapsed = (this.elapsed + deltaTime) % PULSE_PERIOD;
+
+    const wave =
+      (Math.cos((this.elapsed / PULSE_PERIOD) * Math.PI * 2) + 1) / 2;
+    this.currentLevel = this.minLevel + (this.level - this.minLevel) * wave;
+  }
+
+  private applyLevel(material: LitMaterial): void {
+    const brightness = this.currentLevel / 255;
+    material.color.setRGB(brightness, brightness, brightness);
+  }
+}
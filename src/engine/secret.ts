@@ -0,0 +1,109 @@
+import * as THREE from "three";
+import { IRoom } from "../types/level";
+import { WALL_Y_OFFSET } from "./wallGeometry";
+
+// Secrets test the player's eye, this far above their feet
+export const SECRET_EYE_HEIGHT = 1.5;
+
+// Somewhere the player can stand. THREE.Box3 volumes qualify as they are.
+export interface SecretArea {
+  containsPoint(point: THREE.Vector3): boolean;
+}
+
+// One floor or sector of a floor plan: its x/z outline and the heights
+// between its floor and ceiling
+export interface FloorPlanRegion {
+  outline: THREE.Vector2[];
+  bottom: number;
+  top: number;
+}
+
+/**
+ * A room's floor plan: the space above each of its floors and sectors, up
+ * to the ceiling. Corridors under the room or ledges over it stay outside.
+ */
+export class FloorPlan implements SecretArea {
+  private regions: FloorPlanRegion[];
+
+  constructor(regions: FloorPlanRegion[]) {
+    this.regions = regions;
+  }
+
+  public containsPoint(point: THREE.Vector3): boolean {
+    return this.regions.some(
+      (region) =>
+        point.y >= region.bottom &&
+        point.y <= region.top &&
+        FloorPlan.polygonContains(region.outline, point.x, point.z)
+    );
+  }
+
+  // Even-odd point in polygon test
+  private static polygonContains(
+    polygon: THREE.Vector2[],
+    x: number,
+    z: number
+  ): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i];
+      const b = polygon[j];
+      if (a.y > z !== b.y > z) {
+        const crossX = a.x + ((z - a.y) * (b.x - a.x)) / (b.y - a.y);
+        if (x < crossX) inside = !inside;
+      }
+    }
+    return inside;
+  }
+}
+
+/**
+ * The floor plan of a room: its rectangular floors reach up to the room's
+ * highest wall top or ceiling (open above if it has neither), its sectors
+ * from their floor to their ceiling
+ */
+export function createRoomFloorPlan(room: IRoom): FloorPlan {
+  const roomTop = Math.max(
+    ...room.walls.map((wall) => wall.y + WALL_Y_OFFSET + wall.height / 2),
+    ...(room.ceilings ?? []).map((ceiling) => ceiling.y)
+  );
+  const floorTop = Number.isFinite(roomTop) ? roomTop : Infinity;
+
+  const floors: FloorPlanRegion[] = room.floors.map((floor) => {
+    const halfWidth = floor.width / 2;
+    const halfLength = floor.length / 2;
+    return {
+      outline: [
+        new THREE.Vector2(floor.x - halfWidth, floor.z - halfLength),
+        new THREE.Vector2(floor.x + halfWidth, floor.z - halfLength),
+        new THREE.Vector2(floor.x + halfWidth, floor.z + halfLength),
+        new THREE.Vector2(floor.x - halfWidth, floor.z + halfLength),
+      ],
+      bottom: floor.y,
+      top: floorTop,
+    };
+  });
+  const sectors: FloorPlanRegion[] = (room.sectors ?? []).map((sector) => ({
+    outline: sector.vertices.map(
+      (vertex) => new THREE.Vector2(vertex.x, vertex.z)
+    ),
+    bottom: sector.floorHeight,
+    top: sector.ceilingHeight,
+  }));
+
+  return new FloorPlan([...floors, ...sectors]);
+}
+
+/**
+ * A place the player gets credit for finding: a room marked secret, or a
+ * secret trigger volume
+ */
+export class Secret {
+  public area: SecretArea;
+  public room: number | null; // Index of the secret room, null for a volume
+
+  constructor(area: SecretArea, room: number | null = null) {
+    this.area = area;
+    this.room = room;
+  }
+}
@@ -0,0 +1,49 @@
+import { Secret } from "./secret";
+import { Player } from "./player";
+import { LevelEvents } from "./levelEvents";
+
+/**
+ * Tracks which of the level's secrets the player has found, raising a
+ * "secret" event the first time they step into each one
+ */
+export class SecretManager {
+  private secrets: Secret[];
+  private found: Set<Secret> = new Set();
+  private events: LevelEvents;
+
+  constructor(secrets: Secret[], events: LevelEvents) {
+    this.secrets = secrets;
+    this.events = events;
+  }
+
+  public update(player: Player): void {
+    const position = player.getPosition();
+
+    this.secrets.forEach((secret) => {
+      if (this.found.has(secret) || !secret.area.containsPoint(position)) {
+        return;
+      }
+
+      this.found.add(secret);
+      this.events.emit("secret", { secret });
+    });
+  }
+
+  public getFoundCount(): number {
+    return this.found.size;
+  }
+
+  public getTotalCount(): number {
+    return this.secrets.length;
+  }
+
+  /**
+   * Whether the automap should leave a room out: secret rooms stay hidden
+   * until the player has found them
+   */
+  public isRoomHidden(room: number): boolean {
+    return this.secrets.some(
+      (secret) => secret.room === room && !this.found.has(secret)
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import * as THREE from "three";
+import { GameMode } from "../types/game";
+import { ISpawnPoint } from "../types/level";
+
+// Player.setPosition puts the eyes this far above the spawn point
+const SPAWN_EYE_HEIGHT = 1.5;
+
+// Where to start when a level has no spawn points at all
+const FALLBACK_SPAWN_POINT: ISpawnPoint = {
+  tag: "player1",
+  x: 0,
+  y: 0,
+  z: 0,
+  rotation: 0,
+};
+
+/**
+ * A body already in the level. Spawning a player on top of one would
+ * telefrag it, so occupied spawn points are passed over.
+ */
+export interface SpawnOccupant {
+  position: THREE.Vector3;
+  radius: number;
+}
+
+/**
+ * Picks where players start and respawn. Single player and co-op use each
+ * player's own start; deathmatch uses the deathmatch starts in random
+ * order. When those are all occupied the level's other starts are tried,
+ * and when nothing is free the first choice is used anyway.
+ */
+export class SpawnSelector {
+  private spawnPoints: ISpawnPoint[];
+  private random: () => number;
+
+  constructor(spawnPoints: ISpawnPoint[], random: () => number = Math.random) {
+    this.spawnPoints =
+      spawnPoints.length > 0 ? spawnPoints : [FALLBACK_SPAWN_POINT];
+    this.random = random;
+  }
+
+  public getSpawnPoints(): ISpawnPoint[] {
+    return this.spawnPoints;
+  }
+
+  /**
+   * The spawn point for a player (numbered from 1) with the given
+   * collision radius, avoiding anyone already standing in the level
+   */
+  public select(
+    mode: GameMode,
+    playerNumber: number,
+    playerRadius: number,
+    occupants: SpawnOccupant[] = []
+  ): ISpawnPoint {
+    const candidates = this.getCandidates(mode, playerNumber);
+    const free = candidates.find((spawnPoint) =>
+      this.isFree(spawnPoint, playerRadius, occupants)
+    );
+    return free ?? candidates[0];
+  }
+
+  // Every spawn point, in the order they are tried
+  private getCandidates(mode: GameMode, playerNumber: number): ISpawnPoint[] {
+    const ownTag = `player${playerNumber}`;
+    const own = this.spawnPoints.filter((point) => point.tag === ownTag);
+    const deathmatch = this.shuffle(
+      this.spawnPoints.filter((point) => point.tag === "deathmatch")
+    );
+    const others = this.spawnPoints.filter(
+      (point) => point.tag !== ownTag && point.tag !== "deathmatch"
+    );
+
+    return mode === "deathmatch"
+      ? [...deathmatch, ...own, ...others]
+      : [...own, ...others, ...deathmatch];
+  }
+
+  private isFree(
+    spawnPoint: ISpawnPoint,
+    playerRadius: number,
+    occupants: SpawnOccupant[]
+  ): boolean {
+    const eye = new THREE.Vector3(
+      spawnPoint.x,
+      spawnPoint.y + SPAWN_EYE_HEIGHT,
+      spawnPoint.z
+    );
+    return occupants.every(
+      (occupant) =>
+        occupant.position.distanceTo(eye) >= playerRadius + occupant.radius
+    );
+  }
+
+  // Fisher-Yates, so every deathmatch start is equally likely to come first
+  private shuffle(points: ISpawnPoint[]): ISpawnPoint[] {
+    for (let i = points.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [points[i], points[j]] = [points[j], points[i]];
+    }
+    return points;
+  }
+}
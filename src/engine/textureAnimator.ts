@@ -0,0 +1,103 @@
+import * as THREE from "three";
+import { IVector2 } from "../types/level";
+
+// Doom advances animated flats and walls every 8 tics (35 tics a second)
+const DEFAULT_FRAME_TIME = (8 / 35) * 1000;
+
+interface FrameAnimation {
+  texture: THREE.Texture;
+  frames: (HTMLImageElement | null)[]; // null until the image has loaded
+  frameTime: number;
+  elapsed: number;
+  currentFrame: number;
+}
+
+interface ScrollAnimation {
+  texture: THREE.Texture;
+  speed: THREE.Vector2; // World units per second
+}
+
+/**
+ * Cycles frame-animated textures and scrolls moving ones. Surfaces share
+ * texture objects, so changing a texture animates every surface using it.
+ */
+export class TextureAnimator {
+  private imageLoader: THREE.ImageLoader = new THREE.ImageLoader();
+  private frameAnimations: FrameAnimation[] = [];
+  private scrollAnimations: ScrollAnimation[] = [];
+
+  /**
+   * Swap the texture's image through the given frames. The texture's own
+   * image stays the first frame.
+   */
+  public addFrames(
+    texture: THREE.Texture,
+    framePaths: string[],
+    frameTime: number = DEFAULT_FRAME_TIME
+  ): void {
+    const animation: FrameAnimation = {
+      texture,
+      frames: [null, ...framePaths.map(() => null)],
+      frameTime,
+      elapsed: 0,
+      currentFrame: 0,
+    };
+
+    framePaths.forEach((path, index) => {
+      this.imageLoader.load(path, (image) => {
+        animation.frames[index + 1] = image;
+      });
+    });
+
+    this.frameAnimations.push(animation);
+  }
+
+  public addScroll(texture: THREE.Texture, speed: IVector2): void {
+    this.scrollAnimations.push({
+      texture,
+      speed: new THREE.Vector2(speed.x, speed.y),
+    });
+  }
+
+  public update(deltaTime: number): void {
+    this.frameAnimations.forEach((animation) =>
+      this.advanceFrames(animation, deltaTime)
+    );
+
+    const seconds = deltaTime / 1000;
+    this.scrollAnimations.forEach(({ texture, speed }) => {
+      // Offsets are in texture repeats, and the repeat converts world units
+      texture.offset.x =
+        (texture.offset.x + speed.x * seconds * texture.repeat.x) % 1;
+      texture.offset.y =
+        (texture.offset.y + speed.y * seconds * texture.repeat.y) % 1;
+    });
+  }
+
+  public clear(): void {
+    this.frameAnimations = [];
+    this.scrollAnimations = [];
+  }
+
+  private advanceFrames(animation: FrameAnimation, deltaTime: number): void {
+    // The first frame is whatever the texture loaded itself
+    if (!animation.frames[0] && animation.texture.image) {
+      animation.frames[0] = animation.texture.image as HTMLImageElement;
+    }
+
+    animation.elapsed += deltaTime;
+    if (animation.elapsed < animation.frameTime) return;
+
+    const steps = Math.floor(animation.elapsed / animation.frameTime);
+    animation.elapsed -= steps * animation.frameTime;
+    animation.currentFrame =
+      (animation.currentFrame + steps) % animation.frames.length;
+
+    // Hold the current image until the next frame has loaded
+    const image = animation.frames[animation.currentFrame];
+    if (image) {
+      animation.texture.image = image;
+      animation.texture.needsUpdate = true;
+    }
+  }
+}
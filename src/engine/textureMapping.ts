@@ -0,0 +1,116 @@
+import * as THREE from "three";
+import { ISurfaceTextureMapping } from "../types/level";
+
+// Texture pixels per world unit. Imported WADs are scaled by 1/16, so this
+// keeps Doom's one texel per map unit.
+export const TEXELS_PER_UNIT = 16;
+
+/**
+ * Surface UVs are in world units, so a texture's repeat converts them to
+ * image widths. Shared textures can then cover surfaces of any size at
+ * the same density.
+ */
+export function setTextureDensity(texture: THREE.Texture): void {
+  const image = texture.image as { width: number; height: number } | null;
+  if (!image || !image.width || !image.height) return;
+
+  texture.repeat.set(
+    TEXELS_PER_UNIT / image.width,
+    TEXELS_PER_UNIT / image.height
+  );
+}
+
+function getUVs(geometry: THREE.BufferGeometry): THREE.BufferAttribute {
+  return geometry.getAttribute("uv") as THREE.BufferAttribute;
+}
+
+// Stretch a plane's 0-1 UVs to its size in world units
+export function applyPlaneUVs(
+  geometry: THREE.BufferGeometry,
+  width: number,
+  height: number
+): void {
+  const uv = getUVs(geometry);
+  for (let i = 0; i < uv.count; i++) {
+    uv.setXY(i, uv.getX(i) * width, uv.getY(i) * height);
+  }
+  uv.needsUpdate = true;
+}
+
+// Stretch each face of a one-segment BoxGeometry to its size in world units
+export function applyBoxUVs(
+  geometry: THREE.BufferGeometry,
+  width: number,
+  height: number,
+  depth: number
+): void {
+  // BoxGeometry builds its faces in the order +x, -x, +y, -y, +z, -z,
+  // four vertices each
+  const faceSizes = [
+    [depth, height],
+    [depth, height],
+    [width, depth],
+    [width, depth],
+    [width, height],
+    [width, height],
+  ];
+
+  const uv = getUVs(geometry);
+  for (let i = 0; i < uv.count; i++) {
+    const [faceWidth, faceHeight] = faceSizes[Math.floor(i / 4)];
+    uv.setXY(i, uv.getX(i) * faceWidth, uv.getY(i) * faceHeight);
+  }
+  uv.needsUpdate = true;
+}
+
+/**
+ * Give a horizontal surface UVs from its world (x, -z) position, so floors
+ * line up with each other the way Doom's flats follow a world grid
+ */
+export function applyWorldFlatUVs(mesh: THREE.Mesh): void {
+  mesh.updateMatrixWorld(true);
+
+  const position = mesh.geometry.getAttribute(
+    "position"
+  ) as THREE.BufferAttribute;
+  const uv = getUVs(mesh.geometry);
+  const vertex = new THREE.Vector3();
+
+  for (let i = 0; i < position.count; i++) {
+    vertex.fromBufferAttribute(position, i).applyMatrix4(mesh.matrixWorld);
+    uv.setXY(i, vertex.x, -vertex.z);
+  }
+  uv.needsUpdate = true;
+}
+
+// Apply a surface's optional texture offset, scale and rotation to its UVs
+export function applyTextureMapping(
+  geometry: THREE.BufferGeometry,
+  mapping: ISurfaceTextureMapping
+): void {
+  const scale = mapping.textureScale ?? { x: 1, y: 1 };
+  const offset = mapping.textureOffset ?? { x: 0, y: 0 };
+  const rotation = mapping.textureRotation ?? 0;
+
+  if (
+    scale.x === 1 &&
+    scale.y === 1 &&
+    offset.x === 0 &&
+    offset.y === 0 &&
+    rotation === 0
+  ) {
+    return;
+  }
+
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const uv = getUVs(geometry);
+
+  for (let i = 0; i < uv.count; i++) {
+    // A larger scale stretches the texture, so divide the coordinates
+    const u = uv.getX(i) / scale.x;
+    const v = uv.getY(i) / scale.y;
+    uv.setXY(i, u * cos - v * sin + offset.x, u * sin + v * cos + offset.y);
+  }
+  uv.needsUpdate = true;
+}
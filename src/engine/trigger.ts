@@ -0,0 +1,52 @@
+import * as THREE from "three";
+import { ILevelAction, TriggerActivation } from "../types/level";
+
+/**
+ * An invisible box that runs scripted actions when the player enters it,
+ * leaves it, or presses use inside it
+ */
+export class Trigger {
+  public id: string | null;
+  public bounds: THREE.Box3;
+  public once: boolean;
+  public isPlayerInside: boolean = false;
+
+  private actions: Partial<Record<TriggerActivation, ILevelAction[]>>;
+  private spent: Set<TriggerActivation> = new Set();
+
+  constructor(
+    bounds: THREE.Box3,
+    actions: Partial<Record<TriggerActivation, ILevelAction[]>>,
+    id: string | null = null,
+    once: boolean = true
+  ) {
+    this.id = id;
+    this.bounds = bounds;
+    this.actions = actions;
+    this.once = once;
+  }
+
+  public containsPoint(point: THREE.Vector3): boolean {
+    return this.bounds.containsPoint(point);
+  }
+
+  public hasActions(activation: TriggerActivation): boolean {
+    const actions = this.actions[activation];
+    return actions !== undefined && actions.length > 0;
+  }
+
+  /**
+   * Take the actions for an activation, or null if there are none left
+   * to run. One-shot triggers hand each list out only once.
+   */
+  public fire(activation: TriggerActivation): ILevelAction[] | null {
+    if (!this.hasActions(activation) || this.spent.has(activation)) {
+      return null;
+    }
+
+    if (this.once) {
+      this.spent.add(activation);
+    }
+    return this.actions[activation]!;
+  }
+}
@@ -0,0 +1,129 @@
+import { ILevelAction, TriggerActivation } from "../types/level";
+import { Trigger } from "./trigger";
+import { LevelEvents } from "./levelEvents";
+import { DoorManager } from "./doorManager";
+import { PlatformManager } from "./platformManager";
+import { EnemyManager, createEnemySpawnPoint } from "./enemyManager";
+import { Player } from "./player";
+
+// How long a message stays on screen when the action doesn't say
+const DEFAULT_MESSAGE_DURATION = 3000;
+
+export class TriggerManager {
+  private triggers: Trigger[];
+  private events: LevelEvents;
+  private doorManager: DoorManager;
+  private platformManager: PlatformManager;
+  private enemyManager: EnemyManager;
+
+  constructor(
+    triggers: Trigger[],
+    events: LevelEvents,
+    doorManager: DoorManager,
+    platformManager: PlatformManager,
+    enemyManager: EnemyManager
+  ) {
+    this.triggers = triggers;
+    this.events = events;
+    this.doorManager = doorManager;
+    this.platformManager = platformManager;
+    this.enemyManager = enemyManager;
+  }
+
+  // Fire enter/exit actions for triggers the player crossed into or out of
+  public update(player: Player): void {
+    const position = player.getPosition();
+
+    this.triggers.forEach((trigger) => {
+      const isInside = trigger.containsPoint(position);
+      if (isInside === trigger.isPlayerInside) return;
+
+      trigger.isPlayerInside = isInside;
+      this.activate(trigger, isInside ? "enter" : "exit");
+    });
+  }
+
+  /**
+   * Run the use actions of every trigger the player is standing in.
+   * Returns true if any ran.
+   */
+  public tryUse(player: Player): boolean {
+    const position = player.getPosition();
+    let used = false;
+
+    this.triggers.forEach((trigger) => {
+      if (trigger.containsPoint(position) && this.activate(trigger, "use")) {
+        used = true;
+      }
+    });
+
+    return used;
+  }
+
+  public getTriggers(): Trigger[] {
+    return this.triggers;
+  }
+
+  public getTriggerById(id: string): Trigger | null {
+    return this.triggers.find((trigger) => trigger.id === id) ?? null;
+  }
+
+  private activate(trigger: Trigger, activation: TriggerActivation): boolean {
+    const actions = trigger.fire(activation);
+    if (!actions) return false;
+
+    this.events.emit("trigger", { trigger, activation });
+    actions.forEach((action) => this.runAction(action));
+    return true;
+  }
+
+  private runAction(action: ILevelAction): void {
+    switch (action.type) {
+      case "openDoor": {
+        const door = this.doorManager.getDoorById(action.door);
+        if (door) {
+          door.use();
+        } else {
+          console.warn(
+            `Trigger action references unknown door "${action.door}"`
+          );
+        }
+        break;
+      }
+
+      case "activatePlatform":
+        if (!this.platformManager.getPlatformById(action.platform)) {
+          console.warn(
+            `Trigger action references unknown platform "${action.platform}"`
+          );
+        }
+        this.platformManager.activateById(action.platform);
+        break;
+
+      case "spawnEnemies":
+        this.enemyManager.spawnEnemiesFromPoints(
+          action.enemies.flatMap((enemy) => {
+            const spawnPoint = createEnemySpawnPoint(enemy);
+            if (!spawnPoint) {
+              console.warn(
+                `Trigger action spawns unknown enemy type "${enemy.type}"`
+              );
+            }
+            return spawnPoint ? [spawnPoint] : [];
+          })
+        );
+        break;
+
+      case "message":
+        this.events.emit("message", {
+          text: action.text,
+          duration: action.duration ?? DEFAULT_MESSAGE_DURATION,
+        });
+        break;
+
+      case "endLevel":
+        this.events.emit("endLevel", { nextLevel: action.nextLevel ?? null });
+        break;
+    }
+  }
+}
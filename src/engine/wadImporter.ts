@@ -0,0 +1,595 @@
+import {
+  IEnemyLocations,
+  IEntity,
+  ILevel,
+  IRoom,
+  ISpawnPoint,
+  ITexture,
+  LightSpecial,
+  PickupTypeName,
+  SpawnTag,
+} from "../types/level";
+import { WadMap, WadReader, WadVertex } from "./wadReader";
+import { createWallFromSegment } from "./wallGeometry";
+
+export interface WadImportOptions {
+  // World units per Doom map unit. At 1/16 a 128-unit Doom corridor is 8
+  // units wide, which leaves room for the player's 1.5 collision radius.
+  scale?: number;
+  // Doom skill level used to pick which things appear (1-5)
+  skill?: number;
+  // Maps a WAD texture/flat name to an image path served by the game
+  resolveTexturePath?: (name: string, kind: "wall" | "flat") => string;
+}
+
+// Doom thing types we can represent, mapped to our enemy type names
+const DOOM_ENEMY_TYPES: Record<number, string> = {
+  3004: "zombie", // Zombieman
+  9: "zombie", // Shotgun guy
+  65: "zombie", // Heavy weapon dude
+  3001: "imp",
+  3002: "demon",
+  58: "demon", // Spectre
+};
+
+// Doom thing types for items, mapped to our pickup entity types
+const DOOM_PICKUP_TYPES: Record<number, PickupTypeName> = {
+  2014: "healthBonus",
+  2011: "stimpack",
+  2012: "medikit",
+  2015: "armorBonus",
+  2018: "greenArmor",
+  2019: "blueArmor",
+  2007: "clip",
+  2048: "ammoBox",
+  2008: "shells",
+  2049: "shellBox",
+  13: "redKeycard",
+  5: "blueKeycard",
+  6: "yellowKeycard",
+};
+
+// Doom sector special that marks a secret
+const SECRET_SECTOR = 9;
+
+// Doom sector specials that animate the light level
+const DOOM_LIGHT_SPECIALS: Record<number, LightSpecial> = {
+  1: "flicker", // Blink random
+  2: "strobe", // Blink 0.5s
+  3: "strobe", // Blink 1.0s
+  8: "glow",
+  12: "strobe", // Blink 1.0s synchronised
+  13: "strobe", // Blink 0.5s synchronised
+  17: "flicker", // Fire flicker
+};
+
+// Player 1-4 starts and deathmatch starts, by thing type
+const DOOM_SPAWN_TAGS: Record<number, SpawnTag> = {
+  1: "player1",
+  2: "player2",
+  3: "player3",
+  4: "player4",
+  11: "deathmatch",
+};
+
+// Thing flags
+const SKILL_EASY = 0x0001;
+const SKILL_MEDIUM = 0x0002;
+const SKILL_HARD = 0x0004;
+const MULTIPLAYER_ONLY = 0x0010;
+
+// Enemy placeholder meshes are 2 units tall and centred on their position
+const ENEMY_HALF_HEIGHT = 1;
+
+const NO_TEXTURE = "-";
+
+// Doom's sky flat: a ceiling using it is open to the sky
+const SKY_FLAT = "F_SKY1";
+
+const defaultTexturePath = (_name: string, kind: "wall" | "flat"): string =>
+  kind === "wall" ? "FreeDoomWall1.png" : "FreeDoomFloor1.png";
+
+/**
+ * Convert one map of a Doom WAD into our level format.
+ * Each sector becomes a room holding the walls that face into it and its
+ * outline as sectors with their own floor and ceiling.
+ */
+export function importWadMap(
+  buffer: ArrayBuffer,
+  mapName: string,
+  options: WadImportOptions = {}
+): ILevel {
+  const reader = new WadReader(buffer);
+  return convertWadMap(reader.readMap(mapName), options);
+}
+
+/**
+ * Fetch a WAD and import one of its maps, e.g. for use as a LevelSource
+ */
+export async function importWadMapFromUrl(
+  url: string,
+  mapName: string,
+  options: WadImportOptions = {}
+): Promise<ILevel> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(
+      `Failed to load WAD from ${url}: ${response.status} ${response.statusText}`
+    );
+  }
+
+  return importWadMap(await response.arrayBuffer(), mapName, options);
+}
+
+export function convertWadMap(
+  map: WadMap,
+  options: WadImportOptions = {}
+): ILevel {
+  const converter = new WadMapConverter(map, options);
+  return converter.convert();
+}
+
+class WadMapConverter {
+  private map: WadMap;
+  private scale: number;
+  private skillFlag: number;
+  private resolveTexturePath: (name: string, kind: "wall" | "flat") => string;
+  private textures: Map<string, ITexture> = new Map();
+  private rooms: IRoom[];
+
+  constructor(map: WadMap, options: WadImportOptions) {
+    this.map = map;
+    this.scale = options.scale ?? 1 / 16;
+    this.resolveTexturePath = options.resolveTexturePath ?? defaultTexturePath;
+
+    const skill = options.skill ?? 3;
+    this.skillFlag =
+      skill <= 2 ? SKILL_EASY : skill === 3 ? SKILL_MEDIUM : SKILL_HARD;
+
+    this.rooms = map.sectors.map((sector) => ({
+      walls: [],
+      floors: [],
+      lightLevel: sector.lightLevel,
+      lightSpecial: DOOM_LIGHT_SPECIALS[sector.special],
+      secret: sector.special === SECRET_SECTOR ? true : undefined,
+    }));
+  }
+
+  public convert(): ILevel {
+    this.createWalls();
+    this.createSectors();
+
+    const { spawnPoints, enemies, entities } = this.convertThings();
+
+    return {
+      name: this.map.name,
+      spawnPoints,
+      textures: Array.from(this.textures.values()),
+      // Sectors no line refers to end up empty and are dropped
+      rooms: this.rooms.filter(
+        (room) => room.walls.length > 0 || (room.sectors?.length ?? 0) > 0
+      ),
+      enemies,
+      entities,
+    };
+  }
+
+  private createWalls(): void {
+    const { vertexes, sidedefs, sectors } = this.map;
+
+    this.map.linedefs.forEach((linedef) => {
+      const start = vertexes[linedef.startVertex];
+      const end = vertexes[linedef.endVertex];
+      if (!start || !end) return;
+
+      const front = sidedefs[linedef.frontSidedef];
+      const back = sidedefs[linedef.backSidedef];
+
+      if (front && !back) {
+        // One-sided line: a solid wall from floor to ceiling
+        const sector = sectors[front.sector];
+        this.addWall(
+          front.sector,
+          start,
+          end,
+          sector.floorHeight,
+          sector.ceilingHeight,
+          front.middleTexture
+        );
+        return;
+      }
+
+      if (!front || !back) return;
+
+      // Two-sided line: fill the height differences between the sectors,
+      // each piece facing into the sector it is visible from
+      const frontSector = sectors[front.sector];
+      const backSector = sectors[back.sector];
+
+      if (frontSector.floorHeight < backSector.floorHeight) {
+        this.addWall(
+          front.sector,
+          start,
+          end,
+          frontSector.floorHeight,
+          backSector.floorHeight,
+          front.lowerTexture
+        );
+      } else if (backSector.floorHeight < frontSector.floorHeight) {
+        this.addWall(
+          back.sector,
+          end,
+          start,
+          backSector.floorHeight,
+          frontSector.floorHeight,
+          back.lowerTexture
+        );
+      }
+
+      if (frontSector.ceilingHeight > backSector.ceilingHeight) {
+        this.addWall(
+          front.sector,
+          start,
+          end,
+          backSector.ceilingHeight,
+          frontSector.ceilingHeight,
+          front.upperTexture
+        );
+      } else if (backSector.ceilingHeight > frontSector.ceilingHeight) {
+        this.addWall(
+          back.sector,
+          end,
+          start,
+          frontSector.ceilingHeight,
+          backSector.ceilingHeight,
+          back.upperTexture
+        );
+      }
+    });
+  }
+
+  /**
+   * Add a wall along start -> end, visible from the right-hand side
+   * (the side Doom treats as the front of a linedef)
+   */
+  private addWall(
+    sectorIndex: number,
+    start: { x: number; y: number },
+    end: { x: number; y: number },
+    bottom: number,
+    top: number,
+    textureName: string
+  ): void {
+    const room = this.rooms[sectorIndex];
+    if (!room || top <= bottom) return;
+
+    // Doom's x/y plane maps to our x/-z plane
+    const wall = createWallFromSegment(
+      { x: start.x * this.scale, z: -start.y * this.scale },
+      { x: end.x * this.scale, z: -end.y * this.scale },
+      bottom * this.scale,
+      (top - bottom) * this.scale,
+      this.useTexture(textureName, "wall")
+    );
+    if (!wall) return;
+
+    room.walls.push(wall);
+  }
+
+  /**
+   * Trace each sector's outline from the lines that border it. A sector
+   * split into separate pieces becomes one of the room's sectors per piece,
+   * and any holes in a piece are joined onto its outline.
+   */
+  private createSectors(): void {
+    const { vertexes, sectors } = this.map;
+
+    this.traceSectorLoops().forEach((loops, index) => {
+      const sector = sectors[index];
+      // Closed doors and lifts have no space to walk into; the walls of
+      // their neighbours already fill the gap
+      if (!sector || sector.ceilingHeight <= sector.floorHeight) return;
+
+      const polygons = loops.map((loop) =>
+        loop.map((vertexIndex) => vertexes[vertexIndex])
+      );
+      // Lines keep their sector on the right, so in Doom's y-up coordinates
+      // outlines run clockwise and holes counter-clockwise
+      const outlines = polygons.filter((polygon) => signedArea(polygon) < 0);
+      const holes = polygons.filter((polygon) => signedArea(polygon) > 0);
+
+      const holesByOutline = outlines.map((): WadVertex[][] => []);
+      holes.forEach((hole) => {
+        // The innermost outline around a hole is the one it belongs to
+        let owner = -1;
+        outlines.forEach((outline, outlineIndex) => {
+          if (
+            polygonContains(outline, hole[0]) &&
+            (owner < 0 ||
+              Math.abs(signedArea(outline)) <
+                Math.abs(signedArea(outlines[owner])))
+          ) {
+            owner = outlineIndex;
+          }
+        });
+        if (owner >= 0) holesByOutline[owner].push(hole);
+      });
+
+      this.rooms[index].sectors = outlines.map((outline, outlineIndex) => ({
+        // Doom's x/y plane maps to our x/-z plane
+        vertices: joinHoles(outline, holesByOutline[outlineIndex]).map(
+          (vertex) => ({ x: vertex.x * this.scale, z: -vertex.y * this.scale })
+        ),
+        floorHeight: sector.floorHeight * this.scale,
+        ceilingHeight: sector.ceilingHeight * this.scale,
+        floorTexture: this.useTexture(sector.floorTexture, "flat"),
+        ceilingTexture: this.useTexture(sector.ceilingTexture, "flat"),
+        ceilingSky: sector.ceilingTexture === SKY_FLAT ? true : undefined,
+      }));
+    });
+  }
+
+  /**
+   * Chain the lines bordering each sector into closed loops of vertex
+   * indexes, each walked with the sector on its right
+   */
+  private traceSectorLoops(): number[][][] {
+    const { vertexes, sidedefs, sectors } = this.map;
+    // Per sector, the unused edges leaving each vertex
+    const edges = sectors.map(() => new Map<number, number[]>());
+
+    const addEdge = (sideIndex: number, from: number, to: number): void => {
+      const side = sidedefs[sideIndex];
+      const sectorEdges = side && edges[side.sector];
+      if (!sectorEdges) return;
+
+      const outgoing = sectorEdges.get(from) ?? [];
+      outgoing.push(to);
+      sectorEdges.set(from, outgoing);
+    };
+
+    this.map.linedefs.forEach((linedef) => {
+      const { startVertex, endVertex, frontSidedef, backSidedef } = linedef;
+      if (!vertexes[startVertex] || !vertexes[endVertex]) return;
+
+      // Lines with the same sector on both sides don't bound it
+      const front = sidedefs[frontSidedef];
+      const back = sidedefs[backSidedef];
+      if (front && back && front.sector === back.sector) return;
+
+      addEdge(frontSidedef, startVertex, endVertex);
+      addEdge(backSidedef, endVertex, startVertex);
+    });
+
+    return edges.map((sectorEdges) => {
+      const loops: number[][] = [];
+
+      sectorEdges.forEach((outgoing, first) => {
+        while (outgoing.length > 0) {
+          const loop = [first];
+          let next = outgoing.pop()!;
+          while (next !== first) {
+            loop.push(next);
+            const onward = sectorEdges.get(next);
+            if (!onward || onward.length === 0) break;
+            next = onward.pop()!;
+          }
+
+          // Broken maps can leave a chain open; it has no inside to fill
+          if (next === first) loops.push(loop);
+        }
+      });
+
+      return loops;
+    });
+  }
+
+  private convertThings(): {
+    spawnPoints: ISpawnPoint[];
+    enemies: IEnemyLocations[];
+    entities: IEntity[];
+  } {
+    const spawnPoints: ISpawnPoint[] = [];
+    const enemies: IEnemyLocations[] = [];
+    const entities: IEntity[] = [];
+
+    this.map.things.forEach((thing) => {
+      const floorY = this.floorHeightAt(thing.x, thing.y) * this.scale;
+      const x = thing.x * this.scale;
+      const z = -thing.y * this.scale;
+
+      const spawnTag = DOOM_SPAWN_TAGS[thing.type];
+      if (spawnTag) {
+        // Doom angle 90 (north) faces -z, which is our rotation 0
+        spawnPoints.push({
+          tag: spawnTag,
+          x,
+          y: floorY,
+          z,
+          rotation: ((thing.angle - 90) * Math.PI) / 180,
+        });
+        return;
+      }
+
+      if (thing.flags & MULTIPLAYER_ONLY) return;
+      if (!(thing.flags & this.skillFlag)) return;
+
+      const enemyType = DOOM_ENEMY_TYPES[thing.type];
+      if (enemyType) {
+        enemies.push({ x, y: floorY + ENEMY_HALF_HEIGHT, z, type: enemyType });
+        return;
+      }
+
+      const pickupType = DOOM_PICKUP_TYPES[thing.type];
+      if (pickupType) {
+        entities.push({
+          type: pickupType,
+          position: { x, y: floorY, z },
+          properties: {},
+        });
+      }
+    });
+
+    return { spawnPoints, enemies, entities };
+  }
+
+  /**
+   * Find the floor height at a Doom map position with an even-odd
+   * point-in-polygon test over each sector's bordering lines
+   */
+  private floorHeightAt(x: number, y: number): number {
+    const { vertexes, sidedefs, sectors } = this.map;
+    const crossings = new Map<number, number>();
+
+    this.map.linedefs.forEach((linedef) => {
+      const start = vertexes[linedef.startVertex];
+      const end = vertexes[linedef.endVertex];
+      if (!start || !end) return;
+
+      // Does a ray towards +x cross this line?
+      if (start.y > y === end.y > y) return;
+      const crossX =
+        start.x + ((y - start.y) * (end.x - start.x)) / (end.y - start.y);
+      if (crossX <= x) return;
+
+      // A line with the same sector on both sides is crossed twice,
+      // which keeps the parity right for lines inside a sector
+      [linedef.frontSidedef, linedef.backSidedef].forEach((sideIndex) => {
+        const side = sidedefs[sideIndex];
+        if (side) {
+          crossings.set(side.sector, (crossings.get(side.sector) ?? 0) + 1);
+        }
+      });
+    });
+
+    // Lines around an enclosed sector also border the enclosing one, so
+    // only the innermost sector ends up with an odd count
+    for (const [sectorIndex, count] of crossings) {
+      if (count % 2 === 1 && sectors[sectorIndex]) {
+        return sectors[sectorIndex].floorHeight;
+      }
+    }
+
+    return 0;
+  }
+
+  /**
+   * Register a WAD texture/flat as a level texture and return its name
+   */
+  private useTexture(name: string, kind: "wall" | "flat"): string {
+    const wadName = name && name !== NO_TEXTURE ? name : "DEFAULT";
+    // Walls and flats live in separate namespaces in Doom
+    const key = kind === "wall" ? wadName : `FLAT_${wadName}`;
+
+    if (!this.textures.has(key)) {
+      this.textures.set(key, {
+        type: kind === "wall" ? "wall" : "floor",
+        name: key,
+        path: this.resolveTexturePath(wadName, kind),
+      });
+    }
+
+    return key;
+  }
+}
+
+// Shoelace formula: positive for counter-clockwise outlines
+function signedArea(polygon: WadVertex[]): number {
+  let area = 0;
+  polygon.forEach((vertex, index) => {
+    const next = polygon[(index + 1) % polygon.length];
+    area += vertex.x * next.y - next.x * vertex.y;
+  });
+  return area / 2;
+}
+
+// Even-odd point in polygon test
+function polygonContains(polygon: WadVertex[], point: WadVertex): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > point.y !== b.y > point.y) {
+      const crossX = a.x + ((point.y - a.y) * (b.x - a.x)) / (b.y - a.y);
+      if (point.x < crossX) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Cut each hole into the outline along a bridge to one of its vertices, so
+ * the piece stays a single polygon our sectors can hold
+ */
+function joinHoles(outline: WadVertex[], holes: WadVertex[][]): WadVertex[] {
+  const rightmost = (polygon: WadVertex[]): number =>
+    Math.max(...polygon.map((vertex) => vertex.x));
+
+  // Rightmost holes first, so later bridges can't cross earlier holes
+  return [...holes]
+    .sort((a, b) => rightmost(b) - rightmost(a))
+    .reduce(bridgeHole, outline);
+}
+
+// Eberly's bridge for ear clipping: from the hole's rightmost vertex to a
+// vertex of the polygon it can see
+function bridgeHole(polygon: WadVertex[], hole: WadVertex[]): WadVertex[] {
+  let holeIndex = 0;
+  hole.forEach((vertex, index) => {
+    if (vertex.x > hole[holeIndex].x) holeIndex = index;
+  });
+  const from = hole[holeIndex];
+
+  // The nearest polygon edge a ray towards +x hits, and its right end
+  let hitX = Infinity;
+  let bridgeIndex = -1;
+  polygon.forEach((a, index) => {
+    const nextIndex = (index + 1) % polygon.length;
+    const b = polygon[nextIndex];
+    if (a.y > from.y === b.y > from.y) return;
+
+    const crossX = a.x + ((from.y - a.y) * (b.x - a.x)) / (b.y - a.y);
+    if (crossX < from.x || crossX >= hitX) return;
+    hitX = crossX;
+    bridgeIndex = a.x > b.x ? index : nextIndex;
+  });
+  if (bridgeIndex < 0) return polygon;
+
+  // Something may stand between the hit and that end; the polygon vertex
+  // inside the triangle they make closest in angle to the ray is visible
+  const hit = { x: hitX, y: from.y };
+  const end = polygon[bridgeIndex];
+  const angleTo = (vertex: WadVertex): number =>
+    Math.atan2(Math.abs(vertex.y - from.y), vertex.x - from.x);
+  polygon.forEach((vertex, index) => {
+    if (
+      vertex !== end &&
+      triangleContains(from, hit, end, vertex) &&
+      angleTo(vertex) < angleTo(polygon[bridgeIndex])
+    ) {
+      bridgeIndex = index;
+    }
+  });
+
+  // In along the bridge, round the hole and back out the same way
+  return [
+    ...polygon.slice(0, bridgeIndex + 1),
+    ...hole.slice(holeIndex),
+    ...hole.slice(0, holeIndex + 1),
+    ...polygon.slice(bridgeIndex),
+  ];
+}
+
+function triangleContains(
+  a: WadVertex,
+  b: WadVertex,
+  c: WadVertex,
+  point: WadVertex
+): boolean {
+  const side = (p: WadVertex, q: WadVertex): number =>
+    (q.x - p.x) * (point.y - p.y) - (q.y - p.y) * (point.x - p.x);
+  const ab = side(a, b);
+  const bc = side(b, c);
+  const ca = side(c, a);
+  return (ab >= 0 && bc >= 0 && ca >= 0) || (ab <= 0 && bc <= 0 && ca <= 0);
+}
@@ -0,0 +1,225 @@
+// Reader for classic Doom WAD files (IWAD/PWAD), covering the map lumps
+// needed to rebuild level geometry.
+
+export interface WadLump {
+  name: string;
+  offset: number;
+  size: number;
+}
+
+export interface WadVertex {
+  x: number;
+  y: number;
+}
+
+export interface WadLinedef {
+  startVertex: number;
+  endVertex: number;
+  flags: number;
+  special: number;
+  tag: number;
+  frontSidedef: number; // -1 when missing
+  backSidedef: number; // -1 when missing
+}
+
+export interface WadSidedef {
+  xOffset: number;
+  yOffset: number;
+  upperTexture: string;
+  lowerTexture: string;
+  middleTexture: string;
+  sector: number;
+}
+
+export interface WadSector {
+  floorHeight: number;
+  ceilingHeight: number;
+  floorTexture: string;
+  ceilingTexture: string;
+  lightLevel: number;
+  special: number;
+  tag: number;
+}
+
+export interface WadThing {
+  x: number;
+  y: number;
+  angle: number; // Degrees, 0 = east, 90 = north
+  type: number;
+  flags: number;
+}
+
+export interface WadMap {
+  name: string;
+  vertexes: WadVertex[];
+  linedefs: WadLinedef[];
+  sidedefs: WadSidedef[];
+  sectors: WadSector[];
+  things: WadThing[];
+}
+
+// Lumps that follow a map marker, in the order Doom stores them
+const MAP_LUMPS = [
+  "THINGS",
+  "LINEDEFS",
+  "SIDEDEFS",
+  "VERTEXES",
+  "SEGS",
+  "SSECTORS",
+  "NODES",
+  "SECTORS",
+  "REJECT",
+  "BLOCKMAP",
+];
+
+const NO_SIDEDEF = 0xffff;
+
+export class WadReader {
+  private view: DataView;
+  private lumps: WadLump[] = [];
+  public type: "IWAD" | "PWAD";
+
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+
+    if (buffer.byteLength < 12) {
+      throw new Error("Not a WAD file: too short for a header");
+    }
+
+    const identification = this.readString(0, 4);
+    if (identification !== "IWAD" && identification !== "PWAD") {
+      throw new Error(`Not a WAD file: bad identification "${identification}"`);
+    }
+    this.type = identification;
+
+    const lumpCount = this.view.getInt32(4, true);
+    const directoryOffset = this.view.getInt32(8, true);
+
+    if (directoryOffset + lumpCount * 16 > buffer.byteLength) {
+      throw new Error("Corrupt WAD file: directory lies outside the file");
+    }
+
+    for (let i = 0; i < lumpCount; i++) {
+      const entry = directoryOffset + i * 16;
+      this.lumps.push({
+        offset: this.view.getInt32(entry, true),
+        size: this.view.getInt32(entry + 4, true),
+        name: this.readString(entry + 8, 8),
+      });
+    }
+  }
+
+  public getLumps(): WadLump[] {
+    return this.lumps;
+  }
+
+  /**
+   * Names of all map markers in the WAD (e.g. E1M1, MAP01)
+   */
+  public getMapNames(): string[] {
+    return this.lumps
+      .filter(
+        (lump, index) =>
+          lump.size === 0 && this.lumps[index + 1]?.name === MAP_LUMPS[0]
+      )
+      .map((lump) => lump.name);
+  }
+
+  public readMap(mapName: string): WadMap {
+    const name = mapName.toUpperCase();
+    const markerIndex = this.lumps.findIndex((lump) => lump.name === name);
+    if (markerIndex === -1) {
+      throw new Error(`Map ${name} not found in WAD`);
+    }
+
+    // Map lumps follow the marker; stop at the first unrelated lump
+    const mapLumps = new Map<string, WadLump>();
+    for (let i = markerIndex + 1; i < this.lumps.length; i++) {
+      const lump = this.lumps[i];
+      if (!MAP_LUMPS.includes(lump.name)) break;
+      mapLumps.set(lump.name, lump);
+    }
+
+    const getLump = (lumpName: string): WadLump => {
+      const lump = mapLumps.get(lumpName);
+      if (!lump) {
+        throw new Error(`Map ${name} is missing its ${lumpName} lump`);
+      }
+      return lump;
+    };
+
+    return {
+      name,
+      vertexes: this.readRecords(getLump("VERTEXES"), 4, (offset) => ({
+        x: this.view.getInt16(offset, true),
+        y: this.view.getInt16(offset + 2, true),
+      })),
+      linedefs: this.readRecords(getLump("LINEDEFS"), 14, (offset) => ({
+        startVertex: this.view.getUint16(offset, true),
+        endVertex: this.view.getUint16(offset + 2, true),
+        flags: this.view.getUint16(offset + 4, true),
+        special: this.view.getUint16(offset + 6, true),
+        tag: this.view.getUint16(offset + 8, true),
+        frontSidedef: this.readSidedefIndex(offset + 10),
+        backSidedef: this.readSidedefIndex(offset + 12),
+      })),
+      sidedefs: this.readRecords(getLump("SIDEDEFS"), 30, (offset) => ({
+        xOffset: this.view.getInt16(offset, true),
+        yOffset: this.view.getInt16(offset + 2, true),
+        upperTexture: this.readString(offset + 4, 8),
+        lowerTexture: this.readString(offset + 12, 8),
+        middleTexture: this.readString(offset + 20, 8),
+        sector: this.view.getUint16(offset + 28, true),
+      })),
+      sectors: this.readRecords(getLump("SECTORS"), 26, (offset) => ({
+        floorHeight: this.view.getInt16(offset, true),
+        ceilingHeight: this.view.getInt16(offset + 2, true),
+        floorTexture: this.readString(offset + 4, 8),
+        ceilingTexture: this.readString(offset + 12, 8),
+        lightLevel: this.view.getInt16(offset + 20, true),
+        special: this.view.getInt16(offset + 22, true),
+        tag: this.view.getInt16(offset + 24, true),
+      })),
+      things: this.readRecords(getLump("THINGS"), 10, (offset) => ({
+        x: this.view.getInt16(offset, true),
+        y: this.view.getInt16(offset + 2, true),
+        angle: this.view.getInt16(offset + 4, true),
+        type: this.view.getInt16(offset + 6, true),
+        flags: this.view.getInt16(offset + 8, true),
+      })),
+    };
+  }
+
+  private readRecords<T>(
+    lump: WadLump,
+    recordSize: number,
+    read: (offset: number) => T
+  ): T[] {
+    if (lump.offset + lump.size > this.view.byteLength) {
+      throw new Error(`Corrupt WAD file: lump ${lump.name} is truncated`);
+    }
+
+    const records: T[] = [];
+    const count = Math.floor(lump.size / recordSize);
+    for (let i = 0; i < count; i++) {
+      records.push(read(lump.offset + i * recordSize));
+    }
+    return records;
+  }
+
+  private readSidedefIndex(offset: number): number {
+    const index = this.view.getUint16(offset, true);
+    return index === NO_SIDEDEF ? -1 : index;
+  }
+
+  // Read a fixed-length, NUL-padded ASCII name
+  private readString(offset: number, length: number): string {
+    let result = "";
+    for (let i = 0; i < length; i++) {
+      const code = this.view.getUint8(offset + i);
+      if (code === 0) break;
+      result += String.fromCharCode(code);
+    }
+    return result.toUpperCase();
+  }
+}
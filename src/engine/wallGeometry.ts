@@ -0,0 +1,44 @@
+import { ISectorVertex, IWall } from "../types/level";
+
+// Wall meshes are centred this far above the wall's y
+export const WALL_Y_OFFSET = 1.5;
+
+/**
+ * A thin wall along start -> end in the x/z plane, covering bottom to
+ * bottom + height and facing the right-hand side of the line
+ */
+export function createWallFromSegment(
+  start: ISectorVertex,
+  end: ISectorVertex,
+  bottom: number,
+  height: number,
+  texture: string
+): IWall | null {
+  const dx = end.x - start.x;
+  const dz = end.z - start.z;
+  const width = Math.sqrt(dx * dx + dz * dz);
+  if (width === 0 || height <= 0) return null;
+
+  return {
+    x: (start.x + end.x) / 2,
+    y: bottom + height / 2 - WALL_Y_OFFSET,
+    z: (start.z + end.z) / 2,
+    width,
+    height,
+    depth: 0,
+    // A plane's local x axis rotated by r about y points along (cos r, -sin r)
+    rotation: Math.atan2(-dz, dx),
+    texture,
+    normal: { x: -dz / width, y: 0, z: dx / width },
+  };
+}
+
+// The ends of a wall's face in the x/z plane
+export function getWallEndpoints(wall: IWall): [ISectorVertex, ISectorVertex] {
+  const halfX = (Math.cos(wall.rotation) * wall.width) / 2;
+  const halfZ = (-Math.sin(wall.rotation) * wall.width) / 2;
+  return [
+    { x: wall.x - halfX, z: wall.z - halfZ },
+    { x: wall.x + halfX, z: wall.z + halfZ },
+  ];
+}
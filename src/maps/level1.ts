@@ -1,6 +1,6 @@
 export const level1 = {
   name: "Level 1",
-  spawnPoint: { x: 500, z: 320, y: 0, rotation: 0 },
+  spawnPoints: [{ tag: "player1", x: 500, z: 320, y: 0, rotation: 0 }],
   textures: [
     { type: "wall", name: "north", path: "WALL01.png" },
     { type: "wall", name: "south", path: "WALL01.png" },
@@ -69,16 +69,5 @@ export const level1 = {
       ],
     },
   ],
-  entities: [
-    {
-      type: "player",
-      position: { x: 2, y: 0, z: 2 },
-      properties: { speed: 5, health: 100 },
-    },
-    {
-      type: "enemy",
-      position: { x: 8, y: 0, z: 8 },
-      properties: { ai: "patrol", damage: 10 },
-    },
-  ],
+  entities: [],
 };
@@ -0,0 +1,8 @@
+// Levels played in order; finishing one moves on to the next
+export interface IEpisode {
+  name: string;
+  levels: string[]; // Level ids registered with the LevelLoader
+}
+
+// How a session is played; decides rules like whether pickups respawn
+export type GameMode = "single" | "coop" | "deathmatch";
@@ -1,4 +1,13 @@
-import { Enemy } from "../engine/enemy";
+export interface IVector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface IVector2 {
+  x: number;
+  y: number;
+}
 
 export interface IPosition {
   x: number;
@@ -7,55 +16,77 @@ export interface IPosition {
   rotation: number;
 }
 
+// Who may start at a spawn point. player1-4 are each player's start in
+// single player and co-op; deathmatch starts are shared by everyone.
+export const SPAWN_TAG_NAMES = [
+  "player1",
+  "player2",
+  "player3",
+  "player4",
+  "deathmatch",
+] as const;
+
+export type SpawnTag = (typeof SPAWN_TAG_NAMES)[number];
+
+export interface ISpawnPoint extends IPosition {
+  tag: SpawnTag;
+}
+
+export type TextureType = "wall" | "floor" | "step" | "block";
+
 export interface ITexture {
-  type: string;
+  type: TextureType;
   name: string;
   path: string;
+  frames?: string[]; // Further images shown after `path`, in a loop
+  frameTime?: number; // ms each frame is shown
+  scroll?: IVector2; // World units per second along the surface's u/v
+}
+
+// Optional per-surface texture alignment. Textures are laid out in world
+// units; offsets are in world units too, a scale above 1 stretches the
+// texture and rotation is in radians.
+export interface ISurfaceTextureMapping {
+  textureOffset?: IVector2;
+  textureScale?: IVector2;
+  textureRotation?: number;
 }
 
-interface Wall {
+export interface IWall extends ISurfaceTextureMapping {
   x: number;
   y: number;
   z: number;
-  depth: number;
-  normal: { x: number; y: number; z: number };
-  rotation: number;
   width: number;
   height: number;
+  depth: number;
+  rotation: number;
   texture: string;
+  normal: IVector3;
 }
 
-interface Floor {
+export interface IFloor extends ISurfaceTextureMapping {
+  x: number;
   y: number;
-  rotation: number;
   z: number;
-  texture: string;
   width: number;
   length: number;
-  x: number;
-}
-
-export interface IRoom {
-  walls: Wall[];
-  floors: Floor[];
-}
-
-interface Entity {
-  type: string;
-  position: { x: number; y: number; z: number };
-  properties: Record<string, any>;
+  texture: string;
+  rotation: number;
 }
 
-export interface IEnemyLocations {
+export interface IStep extends ISurfaceTextureMapping {
   x: number;
   y: number;
   z: number;
-  type: string;
+  width: number;
+  depth: number;
+  height: number;
+  rotation: number;
+  texture: string;
+  normal: IVector3;
 }
 
-// Add this to your types/level.ts file
-
-export interface IStep {
+export interface IBlock extends ISurfaceTextureMapping {
   x: number;
   y: number;
   z: number;
@@ -64,47 +95,72 @@ export interface IStep {
   height: number;
   rotation: number;
   texture: string;
-  normal: {
-    x: number;
-    y: number;
-    z: number;
-  };
 }
 
-export interface IBlock {
+export type LightSpecial = "flicker" | "strobe" | "glow" | "pulse";
+
+// Doom-style lighting for a room or sector: 0 is black, 255 full bright
+export interface ILighting {
+  lightLevel?: number; // Defaults to 255, or the room's level for sectors
+  lightSpecial?: LightSpecial;
+  lightMin?: number; // Darkest level a special dims to
+}
+
+// A point of a sector outline in the horizontal x/z plane
+export interface ISectorVertex {
+  x: number;
+  z: number;
+}
+
+// An arbitrary polygon with its own floor and ceiling
+export interface ISector extends ILighting {
+  vertices: ISectorVertex[];
+  floorHeight: number;
+  ceilingHeight: number;
+  floorTexture: string;
+  ceilingTexture: string;
+  ceilingSky?: boolean; // Show the level's sky instead of the ceiling texture
+}
+
+// An axis-aligned ceiling at height y, spanning width along x and length along z
+export interface ICeiling {
   x: number;
   y: number;
   z: number;
   width: number;
-  depth: number;
-  height: number;
-  rotation: number;
-  texture: string;
+  length: number;
+  texture?: string; // Not needed for sky ceilings
+  sky?: boolean;
 }
 
-export interface IRoom {
-  walls: IWall[];
-  floors: IFloor[];
-  steps?: IStep[]; // Make steps optional since old maps might not have them
-  blocks?: IBlock[];
+// A cylinder wraps a panoramic strip around the player (like Doom's skies);
+// a cube uses six images in the order +x, -x, +y, -y, +z, -z
+export interface ISky {
+  type: "cylinder" | "cube";
+  path?: string;
+  paths?: string[];
 }
 
-export interface ILevel {
-  name: string;
-  spawnPoint: {
-    x: number;
-    y: number;
-    z: number;
-    rotation: number;
-  };
-  textures: ITexture[];
-  rooms: IRoom[];
-  enemies?: any[];
-  entities?: any[];
+// Surfaces fade to the fog colour between start and end world units from
+// the camera. With bands the fade steps instead of blending smoothly, like
+// Doom's light diminishing.
+export interface IFog {
+  color?: string; // CSS colour, black by default
+  start: number;
+  end: number;
+  bands?: number;
 }
 
-// Existing interfaces
-export interface IWall {
+// Keycard colours; a door can require one to open
+export const KEY_COLORS = ["red", "blue", "yellow"] as const;
+
+export type KeyColor = (typeof KEY_COLORS)[number];
+
+export type DoorDirection = "up" | "down" | "left" | "right";
+
+// A wall that slides open when used. Positioned like IWall.
+export interface IDoor {
+  id?: string;
   x: number;
   y: number;
   z: number;
@@ -113,32 +169,122 @@ export interface IWall {
   depth: number;
   rotation: number;
   texture: string;
-  normal: {
-    x: number;
-    y: number;
-    z: number;
-  };
+  direction: DoorDirection; // "left"/"right" slide along the door's width
+  speed?: number; // Units per second
+  waitTime?: number; // ms the door stays open before closing
+  key?: KeyColor; // Keycard the player needs to open it
 }
 
-export interface IFloor {
+// "loop" platforms cycle through their stops on their own; "trigger"
+// platforms wait to be used, then travel out and back like a Doom lift
+export type PlatformMode = "loop" | "trigger";
+
+// A moving box positioned like IBlock (y is its bottom)
+export interface IPlatform {
+  id?: string;
   x: number;
   y: number;
   z: number;
   width: number;
-  length: number;
-  texture: string;
+  depth: number;
+  height: number;
   rotation: number;
+  texture: string;
+  waypoints: IVector3[]; // Stops after the starting position, same convention
+  mode?: PlatformMode;
+  speed?: number; // Units per second
+  waitTime?: number; // ms spent at each stop
 }
 
-export interface ITexture {
-  type: string;
-  name: string;
-  path: string;
+export interface IRoom extends ILighting {
+  walls: IWall[];
+  floors: IFloor[];
+  steps?: IStep[]; // Make steps optional since old maps might not have them
+  blocks?: IBlock[];
+  sectors?: ISector[];
+  ceilings?: ICeiling[];
+  doors?: IDoor[];
+  platforms?: IPlatform[];
+  secret?: boolean; // Counts as found when the player walks onto its floor
 }
 
-export interface IPosition {
+// Enemy type names as written in map files (case-insensitive)
+export const ENEMY_TYPE_NAMES = ["imp", "zombie", "demon"] as const;
+
+export type EnemyTypeName = (typeof ENEMY_TYPE_NAMES)[number];
+
+export interface IEnemyLocations {
   x: number;
   y: number;
   z: number;
-  rotation: number;
+  type: string;
+}
+
+// Pickup entity types as written in map files
+export const PICKUP_TYPE_NAMES = [
+  "healthBonus",
+  "stimpack",
+  "medikit",
+  "armorBonus",
+  "greenArmor",
+  "blueArmor",
+  "clip",
+  "ammoBox",
+  "shells",
+  "shellBox",
+  "redKeycard",
+  "blueKeycard",
+  "yellowKeycard",
+] as const;
+
+export type PickupTypeName = (typeof PICKUP_TYPE_NAMES)[number];
+
+// Scripted responses to a trigger, run in the order listed
+export type ILevelAction =
+  | { type: "openDoor"; door: string } // Door id
+  | { type: "activatePlatform"; platform: string } // Platform id
+  | { type: "spawnEnemies"; enemies: IEnemyLocations[] }
+  | { type: "message"; text: string; duration?: number } // duration in ms
+  | { type: "endLevel"; nextLevel?: string }; // Level id to load next
+
+export type LevelActionType = ILevelAction["type"];
+
+export type TriggerActivation = "enter" | "exit" | "use";
+
+// Properties of an entity with type "trigger": a box of the given size
+// centred on the entity's position. "use" actions run when the player
+// presses use while inside it.
+export interface ITriggerProperties {
+  id?: string;
+  size: IVector3;
+  onEnter?: ILevelAction[];
+  onExit?: ILevelAction[];
+  onUse?: ILevelAction[];
+  once?: boolean; // Each action list runs only the first time (default true)
+  secret?: boolean; // Entering the box counts as finding a secret
+}
+
+// Properties of "exit" (walk in to finish) and "exitSwitch" (press use
+// inside to finish) entities. Without nextLevel the episode continues.
+export interface IExitProperties {
+  size?: IVector3; // Defaults to a 2 x 3 x 2 box
+  nextLevel?: string;
+}
+
+export interface IEntity {
+  type: string;
+  position: IVector3;
+  properties?: Record<string, unknown>; // Omitted when the entity has none
+}
+
+export interface ILevel {
+  name: string;
+  spawnPoints: ISpawnPoint[];
+  spawnPoint?: IPosition; // Older maps' single start; loaded as player1's
+  textures: ITexture[];
+  rooms: IRoom[];
+  sky?: ISky;
+  fog?: IFog;
+  enemies?: IEnemyLocations[];
+  entities?: IEntity[];
 }
@@ -0,0 +1,7 @@
+// The part of webpack's hot module replacement API the game uses. It is
+// only defined when running under the dev server (npm start).
+interface ImportMeta {
+  webpackHot?: {
+    accept(dependency: string, callback: () => void): void;
+  };
+}
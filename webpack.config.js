@@ -25,6 +25,8 @@ module.exports = {
     },
     compress: true,
     port: 9000,
+    // Lets edited maps be swapped into the running game (see Game)
+    hot: true,
   },
   plugins: [
     new CopyWebpackPlugin({